@@ -1,5 +1,6 @@
 import { InjectionToken } from '@angular/core';
 
+import { RetryPolicy } from '../interfaces/api.interface';
 import { CoreEnvironment } from '../interfaces/environment.interface';
 
 /**
@@ -24,3 +25,26 @@ export function apiBaseUrlFactory(environment: CoreEnvironment): string {
     // If useProxy is false, we prepend the full backend URL.
     return environment.useProxy ? '' : environment.apiUrl;
 }
+
+/**
+ * Default retry policy of the retryInterceptor: three retries of idempotent requests on gateway errors and rate limiting.
+ * Applications can override this by providing their own RETRY_CONFIG.
+ *
+ * @example
+ * // In your app.config.ts:
+ * import { DEFAULT_RETRY_POLICY, RETRY_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: RETRY_CONFIG, useValue: { ...DEFAULT_RETRY_POLICY, maxRetries: 5 } },
+ *     // ...
+ *   ]
+ * };
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    jitter: true,
+    retryOnStatus: [429, 502, 503, 504]
+};
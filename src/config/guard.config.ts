@@ -0,0 +1,22 @@
+import { GuardConfig } from './tokens';
+
+/**
+ * Default redirect targets of the route guards.
+ * Applications can override this by providing their own GUARD_CONFIG.
+ *
+ * @example
+ * // In your app.config.ts:
+ * import { DEFAULT_GUARD_CONFIG, GUARD_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: GUARD_CONFIG, useValue: { ...DEFAULT_GUARD_CONFIG, missingRolesUrl: '/dashboard' } },
+ *     // ...
+ *   ]
+ * };
+ */
+export const DEFAULT_GUARD_CONFIG: GuardConfig = {
+    accessDeniedUrl: '/status/403',
+    missingRolesUrl: '/status/403',
+    stageDeniedUrl: '/status/404'
+};
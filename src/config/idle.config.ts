@@ -0,0 +1,23 @@
+import { IdleConfig } from './tokens';
+
+/**
+ * Default idle timeout configuration for the core library.
+ * Applications can override this by providing their own IDLE_CONFIG.
+ *
+ * @example
+ * // In your app.config.ts:
+ * import { DEFAULT_IDLE_CONFIG, IDLE_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: IDLE_CONFIG, useValue: { ...DEFAULT_IDLE_CONFIG, idleTimeoutSeconds: 15 * 60 } },
+ *     // ...
+ *   ]
+ * };
+ */
+export const DEFAULT_IDLE_CONFIG: IdleConfig = {
+    enabled: true,
+    idleTimeoutSeconds: 30 * 60,
+    warningSeconds: 60,
+    activityEvents: ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll']
+};
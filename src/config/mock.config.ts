@@ -0,0 +1,27 @@
+import { MockBackendConfig } from './tokens';
+
+/**
+ * Default configuration of the mock backend used in the MOCK stage: fixture files below /assets/mock, a short latency and no errors.
+ * Applications can override this by providing their own MOCK_BACKEND_CONFIG.
+ *
+ * @example
+ * // In your app.config.ts:
+ * import { DEFAULT_MOCK_BACKEND_CONFIG, MOCK_BACKEND_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: MOCK_BACKEND_CONFIG, useValue: { ...DEFAULT_MOCK_BACKEND_CONFIG, routes: mockRoutes, errorRate: 0.1 } },
+ *     // ...
+ *   ]
+ * };
+ */
+export const DEFAULT_MOCK_BACKEND_CONFIG: MockBackendConfig = {
+    routes: [],
+    harUrl: null,
+    harMatchBody: false,
+    fixtureBaseUrl: '/assets/mock',
+    latencyMs: [100, 400],
+    errorRate: 0,
+    errorStatus: 503,
+    passThroughUrls: ['/assets/', './assets/']
+};
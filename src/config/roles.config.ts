@@ -1,3 +1,5 @@
+import { RoleSourceConfig } from '../interfaces/roles.interface';
+
 /**
  * Default minimal role configuration for the core library.
  * Applications should override this by providing their own ROLES_CONFIG.
@@ -27,13 +29,33 @@ export const ROLE_CONSTANTS = {
 
 /**
  * Default route-to-role mappings
- * Maps route paths to the roles that have access to them
+ * Maps route patterns to the roles that have access to them.
+ * Patterns match segment-wise and include sub-routes; ':param', '*' (one segment) and '**' (any segments) are supported.
+ * The most specific matching pattern wins (see route-matcher.utils.ts).
  */
 export const ROUTE_ROLE_MAPPINGS: Record<string, string[]> = {
     // Dashboard - accessible to all
     '/': []
 } as const;
 
+/**
+ * Default role sources: realm roles and the roles of the configured client
+ */
+export const DEFAULT_ROLE_SOURCE_CONFIG: RoleSourceConfig = {
+    realmRoles: true
+};
+
+/**
+ * Default lifetime of the cached role mappings; expired mappings are still used while they are revalidated in the background
+ */
+export const DEFAULT_ROLE_MAPPINGS_CACHE_TTL_MINUTES = 30;
+
+/**
+ * Marker of roles inheriting '*' (see InternalRole.inherits). The marker is part of the effective roles instead of all concrete roles:
+ * it satisfies every required role, but never an excluded role, so 'excludeRoles' and 'NOT x' do not lock out administrators.
+ */
+export const SUPERUSER_ROLE = '*';
+
 /**
  * Helper type for role constants
  */
@@ -1,14 +1,24 @@
 import { InjectionToken } from '@angular/core';
 
+import { RetryPolicy } from '../interfaces/api.interface';
+import { MockRoute } from '../interfaces/mock-backend.interface';
+import { MockPersona } from '../interfaces/persona.interface';
+import { RoleSourceConfig } from '../interfaces/roles.interface';
 import { AvailableStage } from '../interfaces/stage.interface';
 import { LayoutConfig } from '../layout/app.layout.service';
+import { AuthProvider } from '../providers/auth-provider.interface';
+import { KeycloakAuthProvider } from '../providers/keycloak-auth.provider';
 import { DefaultRoleDataProvider, RoleDataProvider } from '../providers/role-provider.interface';
 // Version Data Provider Token
 import { DefaultVersionDataProvider, VersionDataProvider } from '../providers/version-provider.interface';
 import { MenuItemWithRoles } from '../services/menu.service';
+import { DEFAULT_RETRY_POLICY } from './api.config';
 import { AVAILABLE_STAGES } from './dev.config';
+import { DEFAULT_GUARD_CONFIG } from './guard.config';
+import { DEFAULT_IDLE_CONFIG } from './idle.config';
 import { menuStructure } from './menu.config';
-import { ROLE_CONSTANTS, ROUTE_ROLE_MAPPINGS } from './roles.config';
+import { DEFAULT_MOCK_BACKEND_CONFIG } from './mock.config';
+import { DEFAULT_ROLE_SOURCE_CONFIG, ROLE_CONSTANTS, ROUTE_ROLE_MAPPINGS } from './roles.config';
 import { DEFAULT_STYLE_CONFIG, SUVA_COLOR_PALETTE, SUVA_THEME_CONFIG } from './style.config';
 
 /**
@@ -38,6 +48,8 @@ export const MENU_CONFIG = new InjectionToken<MenuItemWithRoles[]>('MENU_CONFIG'
 export interface RolesConfig {
     ROLE_CONSTANTS: Record<string, string>;
     ROUTE_ROLE_MAPPINGS: Record<string, string[]>;
+    /** Lifetime of the cached role mappings in minutes (default: DEFAULT_ROLE_MAPPINGS_CACHE_TTL_MINUTES) */
+    ROLE_MAPPINGS_CACHE_TTL_MINUTES?: number;
 }
 
 /**
@@ -61,6 +73,26 @@ export const ROLES_CONFIG = new InjectionToken<RolesConfig>('ROLES_CONFIG', {
     factory: () => ({ ROLE_CONSTANTS, ROUTE_ROLE_MAPPINGS })
 });
 
+/**
+ * Injection token for the sources of the user's Keycloak roles.
+ * AuthService combines the roles of all sources; guards, menu and route access checks use this combined role set.
+ *
+ * @example
+ * ```typescript
+ * import { ROLE_SOURCE_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: ROLE_SOURCE_CONFIG, useValue: { realmRoles: false, clients: ['my-app', 'shared-services'], claims: ['groups'], prefixClientRoles: true } }
+ *   ]
+ * };
+ * ```
+ */
+export const ROLE_SOURCE_CONFIG = new InjectionToken<RoleSourceConfig>('ROLE_SOURCE_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_ROLE_SOURCE_CONFIG
+});
+
 /**
  * Injection token for style configuration.
  * Provide your application-specific default style settings.
@@ -110,6 +142,162 @@ export const DEV_CONFIG = new InjectionToken<DevConfig>('DEV_CONFIG', {
     factory: () => ({ AVAILABLE_STAGES })
 });
 
+/**
+ * Idle timeout configuration interface
+ */
+export interface IdleConfig {
+    /** Whether idle detection is active */
+    enabled: boolean;
+    /** Seconds without user activity until the session is ended */
+    idleTimeoutSeconds: number;
+    /** Seconds before the timeout at which the warning dialog is shown */
+    warningSeconds: number;
+    /** DOM events on the document that count as user activity */
+    activityEvents: string[];
+}
+
+/**
+ * Injection token for the idle timeout configuration.
+ * Provide your application-specific timeouts to override the default.
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_IDLE_CONFIG, IDLE_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: IDLE_CONFIG, useValue: { ...DEFAULT_IDLE_CONFIG, idleTimeoutSeconds: 900, warningSeconds: 120 } }
+ *   ]
+ * };
+ * ```
+ */
+export const IDLE_CONFIG = new InjectionToken<IdleConfig>('IDLE_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_IDLE_CONFIG
+});
+
+/**
+ * Mock backend configuration interface
+ */
+export interface MockBackendConfig {
+    /** Route table, checked before the fixture files */
+    routes: MockRoute[];
+    /** HAR file whose recorded responses are replayed before the route table (see HarReplayService); null disables the replay */
+    harUrl: string | null;
+    /** Match replayed requests by their body in addition to method and URL */
+    harMatchBody: boolean;
+    /** Base URL of the fixture files '{fixtureBaseUrl}/{method}/{path}.json'; null disables the fixture lookup */
+    fixtureBaseUrl: string | null;
+    /** Simulated latency in milliseconds, fixed or a random value in [min, max] */
+    latencyMs: number | [number, number];
+    /** Share of requests (0 to 1) that fail with errorStatus */
+    errorRate: number;
+    /** Status of the injected errors */
+    errorStatus: number;
+    /** URL prefixes that are passed to the network (e.g. the assets) */
+    passThroughUrls: string[];
+}
+
+/**
+ * Injection token for the mock backend of the MOCK stage (see mockBackendInterceptor).
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_MOCK_BACKEND_CONFIG, MOCK_BACKEND_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: MOCK_BACKEND_CONFIG,
+ *       useValue: { ...DEFAULT_MOCK_BACKEND_CONFIG, routes: [{ method: 'GET', path: '/api/users/:id', handler: ({ params }) => ({ id: params['id'] }) }] }
+ *     }
+ *   ]
+ * };
+ * ```
+ */
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_MOCK_BACKEND_CONFIG
+});
+
+/**
+ * Redirect targets of the route guards
+ */
+export interface GuardConfig {
+    /** Target if the authentication is not available or insufficient (auth provider inactive, step-up failed) */
+    accessDeniedUrl: string;
+    /** Target if the user lacks the roles required for a route (the access-denied page '/status/403' explains the decision) */
+    missingRolesUrl: string;
+    /** Target if a route is not available on the current stage */
+    stageDeniedUrl: string;
+}
+
+/**
+ * Injection token for the redirect targets of the route guards.
+ * The targets can also be overridden per route via the options of roleGuard() and stageGuard().
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_GUARD_CONFIG, GUARD_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: GUARD_CONFIG, useValue: { ...DEFAULT_GUARD_CONFIG, missingRolesUrl: '/home' } }
+ *   ]
+ * };
+ * ```
+ */
+export const GUARD_CONFIG = new InjectionToken<GuardConfig>('GUARD_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_GUARD_CONFIG
+});
+
+/**
+ * Injection token for the retry policy of the retryInterceptor.
+ * Single requests can override it with the RETRY_POLICY context token.
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_RETRY_POLICY, RETRY_CONFIG } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: RETRY_CONFIG, useValue: { ...DEFAULT_RETRY_POLICY, retryOnStatus: [502, 503, 504] } }
+ *   ]
+ * };
+ * ```
+ */
+export const RETRY_CONFIG = new InjectionToken<RetryPolicy>('RETRY_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_RETRY_POLICY
+});
+
+/**
+ * Injection token for the personas available in the MOCK stage.
+ * If empty (default), the personas are loaded from '/assets/mock/personas.json'.
+ *
+ * @example
+ * ```typescript
+ * import { MOCK_PERSONAS } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: MOCK_PERSONAS,
+ *       useValue: [
+ *         { id: 'admin', firstName: 'Anna', lastName: 'Admin', email: 'anna.admin@example.com', keycloakRoles: ['app-admin'] },
+ *         { id: 'clerk', firstName: 'Carl', lastName: 'Clerk', email: 'carl.clerk@example.com', keycloakRoles: ['app-user'] }
+ *       ]
+ *     }
+ *   ]
+ * };
+ * ```
+ */
+export const MOCK_PERSONAS = new InjectionToken<MockPersona[]>('MOCK_PERSONAS', {
+    providedIn: 'root',
+    factory: () => []
+});
+
 /**
  * Injection token for PrimeNG theme configuration.
  * Provide your application-specific theme preset.
@@ -162,3 +350,27 @@ export const VERSION_DATA_PROVIDER = new InjectionToken<VersionDataProvider>('VE
     providedIn: 'root',
     factory: () => new DefaultVersionDataProvider()
 });
+
+// ============================================================================
+// Auth Provider Token
+// ============================================================================
+
+/**
+ * Injection token for the authentication backend used by the AuthService.
+ * Defaults to Keycloak; provide an OidcAuthProvider, a FakeAuthProvider or your own implementation to override.
+ *
+ * @example
+ * ```typescript
+ * import { AUTH_PROVIDER, OidcAuthProvider } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: AUTH_PROVIDER, useFactory: () => new OidcAuthProvider() }
+ *   ]
+ * };
+ * ```
+ */
+export const AUTH_PROVIDER = new InjectionToken<AuthProvider>('AUTH_PROVIDER', {
+    providedIn: 'root',
+    factory: () => new KeycloakAuthProvider()
+});
@@ -0,0 +1,47 @@
+import { Directive, inject, Input, signal, TemplateRef } from '@angular/core';
+
+import { Permission } from '../interfaces/roles.interface';
+import { PermissionService } from '../services/permission.service';
+import { ConditionalTemplateDirective } from './conditional-template.directive';
+
+/**
+ * Structural directive rendering its content only if the user has the permission(s).
+ * The view is updated when the entitlements or the user's roles change.
+ *
+ * @example
+ * ```html
+ * <button *appCan="{ op: 'U', area: 'offerte' }; else readOnly" (click)="save()">Save</button>
+ * <ng-template #readOnly><span>Read only</span></ng-template>
+ *
+ * <section *appCan="[{ op: 'R', area: 'offerte' }, { op: 'R', area: 'vertrag' }]">...</section>
+ * ```
+ */
+@Directive({
+    selector: '[appCan]',
+    standalone: true
+})
+export class CanDirective extends ConditionalTemplateDirective {
+    private permissionService = inject(PermissionService);
+
+    private readonly permissions = signal<Permission[]>([]);
+
+    /**
+     * Required permission, or a list of permissions that are all required
+     */
+    @Input()
+    set appCan(permissions: Permission | Permission[]) {
+        this.permissions.set(Array.isArray(permissions) ? permissions : [permissions]);
+    }
+
+    /**
+     * Template rendered if the permission is missing
+     */
+    @Input()
+    set appCanElse(template: TemplateRef<unknown> | null) {
+        this.elseTemplate.set(template);
+    }
+
+    protected evaluate(): boolean {
+        return this.permissionService.canAll(this.permissions());
+    }
+}
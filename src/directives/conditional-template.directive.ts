@@ -0,0 +1,35 @@
+import { Directive, effect, inject, signal, TemplateRef, ViewContainerRef } from '@angular/core';
+
+/**
+ * Base class of the structural access directives (*appCan, *appHasRole, ...).
+ * Renders the template if the condition holds, otherwise the else template (if any).
+ * The condition is evaluated in an effect, so reading signals (roles, entitlements) updates the view automatically.
+ */
+@Directive()
+export abstract class ConditionalTemplateDirective {
+    private templateRef = inject<TemplateRef<unknown>>(TemplateRef);
+    private viewContainer = inject(ViewContainerRef);
+
+    protected readonly elseTemplate = signal<TemplateRef<unknown> | null>(null);
+    private renderedTemplate: TemplateRef<unknown> | null = null;
+
+    constructor() {
+        effect(() => this.render(this.evaluate() ? this.templateRef : this.elseTemplate()));
+    }
+
+    /**
+     * Whether the template is rendered
+     */
+    protected abstract evaluate(): boolean;
+
+    private render(template: TemplateRef<unknown> | null): void {
+        if (template === this.renderedTemplate) {
+            return;
+        }
+        this.viewContainer.clear();
+        if (template) {
+            this.viewContainer.createEmbeddedView(template);
+        }
+        this.renderedTemplate = template;
+    }
+}
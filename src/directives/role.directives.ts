@@ -0,0 +1,186 @@
+import { computed, Directive, HostBinding, inject, Input, signal, TemplateRef } from '@angular/core';
+
+import { MenuItemRole } from '../interfaces/roles.interface';
+import { MenuService } from '../services/menu.service';
+import { ConditionalTemplateDirective } from './conditional-template.directive';
+
+/**
+ * Normalize a role input (single role or list of roles)
+ */
+function toRoleList(roles: string | string[] | null | undefined): string[] {
+    if (!roles) {
+        return [];
+    }
+    return Array.isArray(roles) ? roles : [roles];
+}
+
+/**
+ * Renders its content only if the user has the internal role.
+ * All role directives evaluate the role requirements with the policy engine of the menu and update when the roles or role mappings change.
+ *
+ * @example
+ * ```html
+ * <button *appHasRole="'admin'; else noAdmin">Delete</button>
+ * ```
+ */
+@Directive({
+    selector: '[appHasRole]',
+    standalone: true
+})
+export class HasRoleDirective extends ConditionalTemplateDirective {
+    private menuService = inject(MenuService);
+    private readonly role = signal<string | null>(null);
+
+    @Input()
+    set appHasRole(role: string) {
+        this.role.set(role);
+    }
+
+    @Input()
+    set appHasRoleElse(template: TemplateRef<unknown> | null) {
+        this.elseTemplate.set(template);
+    }
+
+    protected evaluate(): boolean {
+        return this.menuService.hasRoleAccess({ requiredAllRoles: toRoleList(this.role()) });
+    }
+}
+
+/**
+ * Renders its content only if the user has any of the internal roles
+ *
+ * @example
+ * ```html
+ * <section *appHasAnyRole="['admin', 'system']">...</section>
+ * ```
+ */
+@Directive({
+    selector: '[appHasAnyRole]',
+    standalone: true
+})
+export class HasAnyRoleDirective extends ConditionalTemplateDirective {
+    private menuService = inject(MenuService);
+    private readonly roles = signal<string[]>([]);
+
+    @Input()
+    set appHasAnyRole(roles: string | string[]) {
+        this.roles.set(toRoleList(roles));
+    }
+
+    @Input()
+    set appHasAnyRoleElse(template: TemplateRef<unknown> | null) {
+        this.elseTemplate.set(template);
+    }
+
+    protected evaluate(): boolean {
+        return this.menuService.hasRoleAccess({ requiredRoles: this.roles() });
+    }
+}
+
+/**
+ * Renders its content only if the user has all of the internal roles
+ *
+ * @example
+ * ```html
+ * <section *appHasAllRoles="['offerte', 'approver']; else readOnly">...</section>
+ * ```
+ */
+@Directive({
+    selector: '[appHasAllRoles]',
+    standalone: true
+})
+export class HasAllRolesDirective extends ConditionalTemplateDirective {
+    private menuService = inject(MenuService);
+    private readonly roles = signal<string[]>([]);
+
+    @Input()
+    set appHasAllRoles(roles: string | string[]) {
+        this.roles.set(toRoleList(roles));
+    }
+
+    @Input()
+    set appHasAllRolesElse(template: TemplateRef<unknown> | null) {
+        this.elseTemplate.set(template);
+    }
+
+    protected evaluate(): boolean {
+        return this.menuService.hasRoleAccess({ requiredAllRoles: this.roles() });
+    }
+}
+
+/**
+ * Renders its content only if the user has none of the internal roles
+ *
+ * @example
+ * ```html
+ * <p *appLacksRole="'admin'">Ask an administrator to unlock this feature.</p>
+ * ```
+ */
+@Directive({
+    selector: '[appLacksRole]',
+    standalone: true
+})
+export class LacksRoleDirective extends ConditionalTemplateDirective {
+    private menuService = inject(MenuService);
+    private readonly roles = signal<string[]>([]);
+
+    @Input()
+    set appLacksRole(roles: string | string[]) {
+        this.roles.set(toRoleList(roles));
+    }
+
+    @Input()
+    set appLacksRoleElse(template: TemplateRef<unknown> | null) {
+        this.elseTemplate.set(template);
+    }
+
+    protected evaluate(): boolean {
+        return this.menuService.hasRoleAccess({ excludeRoles: this.roles() });
+    }
+}
+
+/**
+ * Attribute variant of the role directives: disables the element instead of hiding it.
+ * Accepts a role, a list of roles (any of them grants access) or a full MenuItemRole requirement.
+ * Sets the disabled attribute, so it works for native form controls and buttons; PrimeNG components get the 'p-disabled' class.
+ *
+ * @example
+ * ```html
+ * <button appDisableUnlessRole="admin">Delete</button>
+ * <button [appDisableUnlessRole]="{ requiredRoles: ['offerte'], excludeRoles: ['readonly'] }">Save</button>
+ * ```
+ */
+@Directive({
+    selector: '[appDisableUnlessRole]',
+    standalone: true
+})
+export class DisableUnlessRoleDirective {
+    private menuService = inject(MenuService);
+    private readonly requirement = signal<MenuItemRole>({});
+    private readonly denied = computed(() => !this.menuService.hasRoleAccess(this.requirement()));
+
+    @Input()
+    set appDisableUnlessRole(roles: string | string[] | MenuItemRole) {
+        this.requirement.set(typeof roles === 'string' || Array.isArray(roles) ? { requiredRoles: toRoleList(roles) } : roles);
+    }
+
+    @HostBinding('attr.disabled')
+    get disabledAttr(): '' | null {
+        return this.denied() ? '' : null;
+    }
+
+    @HostBinding('attr.aria-disabled')
+    get ariaDisabled(): 'true' | null {
+        return this.denied() ? 'true' : null;
+    }
+
+    @HostBinding('class.p-disabled')
+    get disabledClass(): boolean {
+        return this.denied();
+    }
+}
+
+/**
+ * All role directives, for convenient import into standalone components
+ */
+export const ROLE_DIRECTIVES = [HasRoleDirective, HasAnyRoleDirective, HasAllRolesDirective, LacksRoleDirective, DisableUnlessRoleDirective] as const;
@@ -49,7 +49,9 @@ async function loadRuntimeConfig(): Promise<Partial<CoreEnvironment>> {
             console.error(`Failed to fetch runtime config: HTTP ${baseConfigResponse.status}: ${baseConfigResponse.statusText}`);
         }
         console.error('Could not load runtime config. Aborting initialization.');
-        window.location.href = '/500';
+        // Keep the requested URL so the error page can retry it (absolute, so the ReturnUrlService strips the base href)
+        const requestedUrl = window.location.href;
+        window.location.href = window.location.pathname.startsWith('/500') ? requestedUrl : `/500?returnUrl=${encodeURIComponent(requestedUrl)}`;
         // Return a promise that never resolves to halt execution
         return new Promise(() => {});
     }
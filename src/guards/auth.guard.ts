@@ -1,53 +1,121 @@
 import { Observable, of } from 'rxjs';
-import { filter, switchMap, take } from 'rxjs/operators';
+import { filter, map, switchMap, take } from 'rxjs/operators';
 
-import { inject, Injectable } from '@angular/core';
+import { inject, Injectable, Injector, runInInjectionContext } from '@angular/core';
 import {
-    ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree
+    ActivatedRouteSnapshot, CanActivate, CanActivateChild, CanMatch, Route, Router, RouterStateSnapshot, UrlSegment, UrlTree
 } from '@angular/router';
 
-import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { GUARD_CONFIG } from '../config/tokens';
+import { LogFactoryService } from '../factories/logger.factory';
+import { StepUpRequirement } from '../interfaces/auth.interface';
 import { Stage } from '../interfaces/stage.interface';
 import { AuthService } from '../services/auth.service';
 import { EnvironmentService } from '../services/environment.service';
+import { ReturnUrlService } from '../services/return-url.service';
+import { StepUpService } from '../services/step-up.service';
+import { resolveGuardContext, RouteGuardFn } from './guard-context';
 
+/**
+ * Functional guard requiring an authenticated user (and a step-up authentication for routes with 'reauth' data).
+ * Works as canActivate, canActivateChild and canMatch; use canMatch to avoid loading lazy features for unauthenticated users.
+ *
+ * @example
+ * ```typescript
+ * { path: 'admin', canMatch: [authGuard], loadChildren: () => import('./admin/admin.routes') }
+ * ```
+ */
+export const authGuard: RouteGuardFn = (route, stateOrSegments) => checkAuthentication(route, stateOrSegments);
+
+function checkAuthentication(route: ActivatedRouteSnapshot | Route, stateOrSegments: RouterStateSnapshot | UrlSegment[]): Observable<boolean | UrlTree> {
+    const router = inject(Router);
+    const environmentService = inject(EnvironmentService);
+    const authService = inject(AuthService);
+    const stepUpService = inject(StepUpService);
+    const returnUrlService = inject(ReturnUrlService);
+    const guardConfig = inject(GUARD_CONFIG);
+    const logger = inject(LogFactoryService).createLogger('AuthGuard');
+    const { data, url } = resolveGuardContext(route, stateOrSegments);
+
+    // If in mock mode, always allow access.
+    if (environmentService.stage == Stage.MOCK) {
+        logger.debug('Mock mode is active. Skipping auth-check, access granted.');
+        return of(true);
+    }
+
+    /**
+     * Require a recent/stronger authentication for the route, starting a step-up login if necessary
+     */
+    const checkStepUp = (requirement: StepUpRequirement): Observable<boolean | UrlTree> => {
+        const returnUrl = window.location.origin + returnUrlService.toBrowserUrl(router.serializeUrl(router.parseUrl(url)));
+        return stepUpService.stepUp(requirement, returnUrl).pipe(
+            map((satisfied) => {
+                if (satisfied) {
+                    logger.debug(`Step-up requirement satisfied for ${url}, access granted.`);
+                    return true;
+                }
+                if (stepUpService.isStepUpPending()) {
+                    // The login redirect is in progress, cancel the navigation
+                    return false;
+                }
+                logger.warn(`Step-up authentication for ${url} failed.`);
+                return router.createUrlTree([guardConfig.accessDeniedUrl], { queryParams: { cause: 'step_up_required', message: 'A more recent or stronger login is required.', returnUrl: url } });
+            })
+        );
+    };
+
+    // Wait for the AuthService to be initialized before making a decision.
+    return authService.isInitialized$.pipe(
+        filter((isInitialized) => isInitialized), // Wait until isInitialized is true
+        take(1), // Take the first true value and complete
+        switchMap(() => {
+            // If the auth provider is not considered active by AuthService (e.g. missing config), redirect to access denied page.
+            if (!authService.isAuthProviderActive()) {
+                logger.warn('Access denied. Auth provider is not active. This might indicate a configuration issue.');
+                return of(router.createUrlTree([guardConfig.accessDeniedUrl], { queryParams: { cause: 'keycloak_inactive', message: 'Authentication is not properly configured.', returnUrl: url } }));
+            }
+
+            if (authService.isAuthenticated()) {
+                const reauth = data['reauth'] as StepUpRequirement | undefined;
+                if (reauth) {
+                    return checkStepUp(reauth);
+                }
+                logger.debug('User is authenticated, access granted.');
+                return of(true);
+            }
+
+            // If not authenticated, the provider's init process should have already started the login redirect.
+            // We return true to allow the app to continue rendering while the provider handles the redirect.
+            logger.debug('User authentication required. The auth provider will handle the redirect.');
+            returnUrlService.capture(url);
+            return of(true);
+        })
+    );
+}
+
+/**
+ * Class-based variant of authGuard, kept for compatibility
+ */
 @Injectable({
     providedIn: 'root'
 })
-export class AuthGuard implements CanActivate {
-    private router = inject(Router);
-    private environmentService = inject(EnvironmentService);
-    private authService = inject(AuthService);
-    private logger: Logger = inject(LogFactoryService).createLogger('AuthGuard');
-
-    canActivate(_route: ActivatedRouteSnapshot, _state: RouterStateSnapshot): Observable<boolean | UrlTree> {
-        // If in mock mode, always allow access.
-        if (this.environmentService.stage == Stage.MOCK) {
-            this.logger.debug('Mock mode is active. Skipping auth-check, access granted.');
-            return of(true);
-        }
-
-        // Wait for the AuthService to be initialized before making a decision.
-        return this.authService.isInitialized$.pipe(
-            filter((isInitialized) => isInitialized), // Wait until isInitialized is true
-            take(1), // Take the first true value and complete
-            switchMap(() => {
-                // If Keycloak is not considered active by AuthService (e.g. missing config), redirect to access denied page.
-                if (!this.authService.isKeycloakActive()) {
-                    this.logger.warn('Access denied. Keycloak is not active. This might indicate a configuration issue.');
-                    return of(this.router.createUrlTree(['/status/403'], { queryParams: { cause: 'keycloak_inactive', message: 'Keycloak authentication is not properly configured.' } }));
-                }
+export class AuthGuard implements CanActivate, CanActivateChild, CanMatch {
+    private injector = inject(Injector);
 
-                if (this.authService.isAuthenticated()) {
-                    this.logger.debug('User is authenticated, access granted.');
-                    return of(true);
-                }
+    canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+        return runInInjectionContext(this.injector, () => checkAuthentication(route, state));
+    }
 
-                // If not authenticated, Keycloak's init process should have already started the login redirect.
-                // We return true to allow the app to continue rendering while Keycloak handles the redirect.
-                this.logger.debug('User authentication required. Keycloak will handle the redirect.');
-                return of(true);
-            })
-        );
+    canActivateChild(childRoute: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+        return runInInjectionContext(this.injector, () => checkAuthentication(childRoute, state));
+    }
+
+    canMatch(route: Route, segments: UrlSegment[]): Observable<boolean | UrlTree> {
+        return runInInjectionContext(this.injector, () => checkAuthentication(route, segments));
     }
 }
+
+// Helper interface for route data
+export interface ReauthRouteData {
+    reauth?: StepUpRequirement; // Recent or stronger authentication required for the route
+}
@@ -0,0 +1,35 @@
+import { inject } from '@angular/core';
+import {
+    ActivatedRouteSnapshot, CanActivateChildFn, CanActivateFn, CanMatchFn, Data, Route, Router, RouterStateSnapshot, UrlSegment
+} from '@angular/router';
+
+/**
+ * Functional guard usable as canActivate, canActivateChild and canMatch
+ */
+export type RouteGuardFn = CanActivateFn & CanActivateChildFn & CanMatchFn;
+
+/**
+ * Route data and target URL of a guarded navigation
+ */
+export interface GuardContext {
+    data: Data;
+    url: string;
+}
+
+/**
+ * Resolve the route data and target URL independent of the guard type.
+ * canMatch guards get the route config and the remaining URL segments instead of the snapshots.
+ * Must be called in an injection context.
+ */
+export function resolveGuardContext(route: ActivatedRouteSnapshot | Route, stateOrSegments: RouterStateSnapshot | UrlSegment[]): GuardContext {
+    if (!Array.isArray(stateOrSegments)) {
+        return { data: route.data ?? {}, url: stateOrSegments.url };
+    }
+
+    // The segments are relative to the parent route, so prefer the URL of the running navigation
+    // (getCurrentNavigation() instead of the currentNavigation signal to support Angular 18 and 19)
+    const router = inject(Router);
+    const navigation = router.getCurrentNavigation();
+    const url = navigation ? router.serializeUrl(navigation.extractedUrl) : '/' + stateOrSegments.map((segment) => segment.path).join('/');
+    return { data: route.data ?? {}, url };
+}
@@ -1,130 +1,338 @@
-import { Observable, of } from 'rxjs';
-import { catchError, filter, map, take } from 'rxjs/operators';
+import { concat, isObservable, Observable, of } from 'rxjs';
+import { catchError, filter, first, map, switchMap, take } from 'rxjs/operators';
 
-import { inject, Injectable } from '@angular/core';
-import { ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { inject, Injectable, Injector, runInInjectionContext } from '@angular/core';
+import {
+    ActivatedRouteSnapshot, CanActivate, CanActivateChild, CanMatch, Data, Route, Router, RouterStateSnapshot, UrlSegment, UrlTree
+} from '@angular/router';
 
-import { LogFactoryService } from '../factories/logger.factory';
+import { GUARD_CONFIG } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AccessDecision, AccessDecisionRule } from '../interfaces/access-decision.interface';
+import { Permission } from '../interfaces/roles.interface';
 import { Stage } from '../interfaces/stage.interface';
+import { AccessDecisionService } from '../services/access-decision.service';
 import { AuthService } from '../services/auth.service';
 import { EnvironmentService } from '../services/environment.service';
+import { PermissionService } from '../services/permission.service';
+import { PolicyService } from '../services/policy.service';
 import { RolesService } from '../services/roles.service';
+import { AccessPolicy, collectPolicyRoles, formatPolicy, PolicyContext } from '../utils/policy.utils';
+import { resolveGuardContext, RouteGuardFn } from './guard-context';
 
-@Injectable({
-    providedIn: 'root'
-})
-export class RoleGuard {
-    private authService = inject(AuthService);
-    private rolesService = inject(RolesService);
-    private router = inject(Router);
-    private environmentService = inject(EnvironmentService);
-    private logger = inject(LogFactoryService).createLogger('RoleGuard');
+/**
+ * Options of roleGuard(); role requirements given here take precedence over the route data
+ */
+export interface RoleGuardOptions extends RoleRouteData {
+    redirectTo?: string; // Target if access is denied (default: GUARD_CONFIG.missingRolesUrl)
+}
 
-    canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> | Promise<boolean | UrlTree> | boolean | UrlTree {
-        // If in mock mode, use menu filter service for role checking with simulated roles
-        if (this.environmentService.stage === Stage.MOCK) {
-            this.logger.debug('[RoleGuard] Mock mode is active, checking simulated roles.');
-            return this.checkRouteDataRoles(route, state);
-        }
+/**
+ * Functional guard checking the role requirements of the route data (or the options) and the route role mappings.
+ * Works as canActivate, canActivateChild and canMatch; use canMatch to avoid loading lazy features the user cannot enter.
+ * When the roles change (e.g. role simulation), the AuthService re-checks the guards of the active route (see checkActiveRouteRoles).
+ *
+ * @example
+ * ```typescript
+ * { path: 'admin', canMatch: [authGuard, roleGuard({ roles: ['ADMIN'], redirectTo: '/status/403' })], loadChildren: () => import('./admin/admin.routes') }
+ * ```
+ */
+export function roleGuard(options: RoleGuardOptions = {}): RouteGuardFn {
+    const guard: RouteGuardFn = (route, stateOrSegments) => checkRoles(route, stateOrSegments, options);
+    roleGuardOptions.set(guard, options);
+    return guard;
+}
 
-        const routePath = state.url;
+/**
+ * Options of the guards created by roleGuard()
+ */
+const roleGuardOptions = new WeakMap<object, RoleGuardOptions>();
 
-        // Wait for role mappings to load before checking access
-        return this.rolesService.isLoadingMappings$.pipe(
-            filter((isLoading) => !isLoading),
-            take(1),
-            map(() => {
-                const userRoles = this.authService.getRoles();
+/**
+ * Options of a role guard of a route config (canActivate, canActivateChild, canMatch)
+ *
+ * @returns The options of a roleGuard() guard, empty options for RoleGuard, null for other guards
+ */
+export function getRoleGuardOptions(guard: unknown): RoleGuardOptions | null {
+    if (guard === RoleGuard) {
+        return {};
+    }
+    return (typeof guard === 'function' && roleGuardOptions.get(guard)) || null;
+}
 
-                if (!userRoles || userRoles.length === 0) {
-                    this.logger.warn(`RoleGuard: Access denied for ${routePath}. User has no roles.`);
-                    return this.router.createUrlTree(['/dashboard'], { queryParams: { error: 'access_denied_no_roles' } });
-                }
+/**
+ * Re-check the role guards (roleGuard() and RoleGuard) of the active route with the current roles, without navigating.
+ * Evaluates canMatch and canActivate of each activated route and the canActivateChild of its parents; every check is recorded
+ * in the decision log. Must be called in an injection context.
+ *
+ * @returns Emits the redirect of the first denying guard (with the decision id), or null if access is still granted
+ */
+export function checkActiveRouteRoles(): Observable<UrlTree | null> {
+    const state = inject(Router).routerState.snapshot;
+    const checks: Observable<boolean | UrlTree>[] = [];
+    const collect = (route: ActivatedRouteSnapshot, childGuards: RoleGuardOptions[]): void => {
+        const config = route.routeConfig;
+        [...childGuards, ...getRoleGuards([...(config?.canMatch ?? []), ...(config?.canActivate ?? [])])].forEach((options) => {
+            const result = checkRoles(route, state, options);
+            checks.push(isObservable(result) ? result : of(result));
+        });
+        route.children.forEach((child) => collect(child, [...childGuards, ...getRoleGuards(config?.canActivateChild ?? [])]));
+    };
+    collect(state.root, []);
 
-                // Check route data first for specific role requirements
-                const routeDataCheck = this.checkRouteDataRoles(route, state);
-                if (routeDataCheck !== true) {
-                    return routeDataCheck;
-                }
+    // Checked one after another, so only the first denial is recorded as the reason of the redirect
+    return concat(...checks).pipe(
+        first((result) => result !== true, true as boolean | UrlTree),
+        map((result) => (result instanceof UrlTree ? result : null))
+    );
+}
 
-                // Check role mapping for route access
-                this.logger.debug(`RoleGuard: Role mappings loaded for ${routePath}. Checking access.`);
-                const hasAccess = this.rolesService.checkRouteAccess(userRoles, routePath);
+/**
+ * Options of the role guards among the guards of a route config
+ */
+export function getRoleGuards(guards: unknown[]): RoleGuardOptions[] {
+    return guards.map((guard) => getRoleGuardOptions(guard)).filter((options): options is RoleGuardOptions => options !== null);
+}
 
-                if (hasAccess) {
-                    this.logger.debug(`RoleGuard: Access granted for ${routePath}.`);
-                    return true;
-                }
+function checkRoles(route: ActivatedRouteSnapshot | Route, stateOrSegments: RouterStateSnapshot | UrlSegment[], options: RoleGuardOptions): Observable<boolean | UrlTree> | boolean | UrlTree {
+    const authService = inject(AuthService);
+    const rolesService = inject(RolesService);
+    const permissionService = inject(PermissionService);
+    const policyService = inject(PolicyService);
+    const decisionLog = inject(AccessDecisionService);
+    const router = inject(Router);
+    const environmentService = inject(EnvironmentService);
+    const logger = inject(LogFactoryService).createLogger('RoleGuard');
+    const redirectTo = options.redirectTo ?? inject(GUARD_CONFIG).missingRolesUrl;
+    const { data, url: routePath } = resolveGuardContext(route, stateOrSegments);
+    const requirements = getRoleRouteData(data, options);
 
-                this.logger.warn(`RoleGuard: Access denied. User roles [${userRoles.join(', ')}] do not grant access to route ${routePath}.`);
-                return this.router.createUrlTree(['/dashboard'], { queryParams: { error: 'access_denied_insufficient_permissions' } });
-            }),
-            catchError((error) => {
-                this.logger.error(`RoleGuard: Error checking access for ${routePath}:`, error);
-                return of(this.router.createUrlTree(['/dashboard'], { queryParams: { error: 'guard_error' } }));
-            })
-        );
+    // Every outcome is recorded in the decision log; denials pass the decision id to the target page
+    const record = (granted: boolean, details: AccessDecisionDetails): AccessDecision =>
+        decisionLog.record({
+            route: routePath,
+            granted,
+            simulated: authService.isRoleSimulationActive(),
+            routeMapping: rolesService.getRouteRoleMapping(routePath) ?? undefined,
+            ...details
+        });
+    const deny = (queryParams: Record<string, string>, details: AccessDecisionDetails): UrlTree => {
+        const decision = record(false, { reason: queryParams['reason'] ?? queryParams['error'], ...details });
+        return router.createUrlTree([redirectTo], { queryParams: { ...queryParams, decision: decision.id } });
+    };
+
+    // In mock mode, only the route data is checked (against the simulated roles), there are no role mappings
+    const checkRouteMappings = environmentService.stage !== Stage.MOCK;
+    if (!checkRouteMappings) {
+        logger.debug('[RoleGuard] Mock mode is active, checking simulated roles.');
     }
 
-    private checkRouteDataRoles(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): boolean | UrlTree {
-        const requiredRoles = route.data['roles'] as string[] | undefined;
-        const requiredAllRoles = route.data['allRoles'] as string[] | undefined;
-        const excludeRoles = route.data['excludeRoles'] as string[] | undefined;
-        const routePath = state.url;
+    // Wait for the role mappings and, if permissions are required, the entitlements before deciding
+    const mappingsLoaded$ = checkRouteMappings
+        ? rolesService.isLoadingMappings$.pipe(
+              filter((isLoading) => !isLoading),
+              take(1)
+          )
+        : of(false);
+    return mappingsLoaded$.pipe(
+        switchMap(() => (requirements.permissions?.length ? permissionService.whenLoaded() : of(undefined))),
+        map(() => {
+            // While simulating roles, the role mappings are checked against the simulated internal roles instead of the Keycloak roles
+            const simulated = authService.isRoleSimulationActive();
+            const subject: RoleAccessSubject = {
+                internalRoles: authService.internalRoles(),
+                mappedRoles: simulated ? authService.getUserRoles() : authService.getRoles(),
+                simulated,
+                can: (op, area) => permissionService.can(op, area)
+            };
+            const result = decideRoleAccess(requirements, routePath, subject, checkRouteMappings, rolesService, policyService, logger);
+            if (result.granted) {
+                record(true, result.details);
+                return true;
+            }
+            return deny(result.queryParams, result.details);
+        }),
+        catchError((error) => {
+            logger.error(`RoleGuard: Error checking access for ${routePath}:`, error);
+            return of(deny({ error: 'guard_error' }, { rule: 'error', presentRoles: [] }));
+        })
+    );
+}
 
-        // If no role requirements specified in route data, allow normal processing
-        if (!requiredRoles && !requiredAllRoles && !excludeRoles) {
-            return true;
-        }
+/**
+ * Role requirements of the route data; requirements given in the options take precedence
+ */
+export function getRoleRouteData(data: Data, options: RoleRouteData = {}): RoleRouteData {
+    return {
+        roles: options.roles ?? (data['roles'] as string[] | undefined),
+        allRoles: options.allRoles ?? (data['allRoles'] as string[] | undefined),
+        excludeRoles: options.excludeRoles ?? (data['excludeRoles'] as string[] | undefined),
+        policy: options.policy ?? (data['policy'] as string | undefined),
+        permissions: options.permissions ?? (data['permissions'] as Permission[] | undefined)
+    };
+}
+
+/**
+ * The role requirements of the route data as policies, in the order RoleGuard evaluates them (the reason is reported on denial)
+ */
+export function getRouteDataPolicies(requirements: RoleRouteData): RouteDataPolicy[] {
+    const { roles: requiredRoles, allRoles: requiredAllRoles, excludeRoles, policy } = requirements;
+    const policies: Partial<RouteDataPolicy>[] = [
+        { policy: excludeRoles && { excludeRoles }, reason: 'excluded-role' },
+        { policy: requiredAllRoles && { requiredAllRoles }, reason: 'insufficient-roles' },
+        { policy: requiredRoles && { requiredRoles }, reason: 'no-required-role' },
+        { policy, reason: 'policy-not-satisfied' }
+    ];
+    return policies.filter((entry): entry is RouteDataPolicy => !!entry.policy);
+}
 
-        // Get current user roles. For mock mode, use admin role
-        const userRoles = this.environmentService.stage === Stage.MOCK ? [RolesService.ADMIN_ROLE, ...this.authService.getRoles()] : this.authService.getRoles();
+/**
+ * Decision details provided by the individual checks
+ */
+export type AccessDecisionDetails = Omit<AccessDecision, 'id' | 'timestamp' | 'route' | 'granted' | 'simulated'>;
 
-        this.logger.debug(`RoleGuard: Checking route data roles for ${routePath}`, {
-            userRoles,
-            requiredRoles,
-            requiredAllRoles,
-            excludeRoles
-        });
+/**
+ * Roles and permissions of the user a role decision is made for
+ */
+export interface RoleAccessSubject {
+    internalRoles: string[]; // Effective internal roles, matched against the route data
+    mappedRoles: string[]; // Roles matched against ROUTE_ROLE_MAPPINGS: the Keycloak roles, or the internal roles while simulating
+    simulated: boolean;
+    can: PolicyContext['can'];
+}
 
-        // Check exclude roles first
-        if (excludeRoles && excludeRoles.some((excludeRole) => userRoles.includes(excludeRole))) {
-            this.logger.debug(`RoleGuard: Access denied to ${routePath} - user has excluded role`);
-            return this.router.createUrlTree(['/dashboard'], {
-                queryParams: { error: 'access-denied', reason: 'excluded-role' }
-            });
-        }
+/**
+ * Outcome of the role checks; denials carry the query parameters of the redirect (error, reason)
+ */
+export interface RoleAccessResult {
+    granted: boolean;
+    queryParams: Record<string, string>;
+    details: AccessDecisionDetails;
+}
 
-        // Check if all required roles are present
-        if (requiredAllRoles && requiredAllRoles.length > 0) {
-            const hasAllRoles = requiredAllRoles.every((role) => userRoles.includes(role));
-            if (!hasAllRoles) {
-                this.logger.debug(`RoleGuard: Access denied to ${routePath} - missing required roles`, requiredAllRoles);
-                return this.router.createUrlTree(['/dashboard'], {
-                    queryParams: { error: 'access-denied', reason: 'insufficient-roles' }
-                });
-            }
+/**
+ * The decision of RoleGuard, also used by the AccessMatrixService: route data (against the internal roles), then the route role mappings
+ * (users without roles are denied), then the permissions. The role mappings and entitlements must be loaded.
+ *
+ * @param checkRouteMappings False on the MOCK stage, where only the route data and permissions are checked
+ * @param logger Logger for the guard's debug output, omitted for bulk evaluations
+ */
+export function decideRoleAccess(requirements: RoleRouteData, routePath: string, subject: RoleAccessSubject, checkRouteMappings: boolean, rolesService: RolesService, policyService: PolicyService, logger?: Logger): RoleAccessResult {
+    const grant = (details: AccessDecisionDetails): RoleAccessResult => ({ granted: true, queryParams: {}, details });
+    const deny = (queryParams: Record<string, string>, details: AccessDecisionDetails): RoleAccessResult => ({ granted: false, queryParams, details });
+    const requiredRoles = rolesService.getRouteRoleMapping(routePath)?.roles ?? [];
+
+    if (checkRouteMappings && subject.mappedRoles.length === 0) {
+        logger?.warn(`RoleGuard: Access denied for ${routePath}. User has no roles.`);
+        return deny({ error: 'access_denied_no_roles' }, { rule: 'route-mapping', requiredRoles, presentRoles: [] });
+    }
+
+    // Check route data first for specific role requirements
+    const routeDataDenial = checkRoleRequirements(requirements, subject, routePath, policyService, logger);
+    if (routeDataDenial) {
+        return deny({ error: 'access-denied', reason: routeDataDenial.reason }, routeDataDenial.details);
+    }
+    let rule: AccessDecisionRule = 'route-data';
+
+    if (checkRouteMappings) {
+        logger?.debug(`RoleGuard: Role mappings loaded for ${routePath}. Checking access.`);
+        const hasAccess = subject.simulated ? rolesService.checkRouteAccessForInternalRoles(subject.mappedRoles, routePath) : rolesService.checkRouteAccess(subject.mappedRoles, routePath);
+        if (!hasAccess) {
+            logger?.warn(`RoleGuard: Access denied. User roles [${subject.mappedRoles.join(', ')}] do not grant access to route ${routePath}.`);
+            return deny({ error: 'access_denied_insufficient_permissions' }, { rule: 'route-mapping', policy: requiredRoles.join(' OR '), requiredRoles, presentRoles: subject.internalRoles });
         }
+        logger?.debug(`RoleGuard: Access granted for ${routePath}.`);
+        rule = 'route-mapping';
+    }
 
-        // Check if any of the required roles is present
-        if (requiredRoles && requiredRoles.length > 0) {
-            const hasAnyRole = requiredRoles.some((role) => userRoles.includes(role));
-            if (!hasAnyRole) {
-                this.logger.debug(`RoleGuard: Access denied to ${routePath} - no required roles`, requiredRoles);
-                return this.router.createUrlTree(['/dashboard'], {
-                    queryParams: { error: 'access-denied', reason: 'no-required-role' }
-                });
-            }
+    const permissions = requirements.permissions ?? [];
+    if (permissions.length === 0) {
+        return grant({ rule, presentRoles: subject.internalRoles });
+    }
+    if (permissions.every((permission) => subject.can(permission.op, permission.area))) {
+        return grant({ rule: 'permission', presentRoles: subject.internalRoles, permissions });
+    }
+    logger?.debug(`RoleGuard: Access denied to ${routePath} - missing permissions`, permissions);
+    return deny({ error: 'access-denied', reason: 'missing-permission' }, { rule: 'permission', presentRoles: subject.internalRoles, permissions });
+}
+
+/**
+ * Check the role requirements of the route data
+ *
+ * @returns The reason and details of a denial, null if the requirements are satisfied
+ */
+function checkRoleRequirements(requirements: RoleRouteData, subject: RoleAccessSubject, routePath: string, policyService: PolicyService, logger?: Logger): { reason: string; details: AccessDecisionDetails } | null {
+    const { roles: requiredRoles, allRoles: requiredAllRoles, excludeRoles, policy } = requirements;
+    const userRoles = subject.internalRoles;
+
+    // If no role requirements specified in route data, allow normal processing
+    if (!requiredRoles && !requiredAllRoles && !excludeRoles && !policy) {
+        return null;
+    }
+
+    logger?.debug(`RoleGuard: Checking route data roles for ${routePath}`, {
+        userRoles,
+        requiredRoles,
+        requiredAllRoles,
+        excludeRoles,
+        policy
+    });
+
+    for (const { policy: check, reason } of getRouteDataPolicies(requirements)) {
+        if (!policyService.evaluate(check, userRoles, subject.can)) {
+            logger?.debug(`RoleGuard: Access denied to ${routePath} - ${reason}`, check);
+            const expression = policyService.compile(check);
+            return {
+                reason,
+                details: {
+                    rule: 'route-data',
+                    policy: expression ? formatPolicy(expression) : String(check),
+                    requiredRoles: expression ? collectPolicyRoles(expression) : [],
+                    presentRoles: userRoles
+                }
+            };
         }
+    }
+
+    logger?.debug(`RoleGuard: Route data role check passed for ${routePath}`);
+    return null;
+}
+
+/**
+ * Class-based variant of roleGuard() using the role requirements of the route data, kept for compatibility
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RoleGuard implements CanActivate, CanActivateChild, CanMatch {
+    private injector = inject(Injector);
 
-        this.logger.debug(`RoleGuard: Route data role check passed for ${routePath}`);
-        return true;
+    canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> | Promise<boolean | UrlTree> | boolean | UrlTree {
+        return runInInjectionContext(this.injector, () => checkRoles(route, state, {}));
+    }
+
+    canActivateChild(childRoute: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> | boolean | UrlTree {
+        return runInInjectionContext(this.injector, () => checkRoles(childRoute, state, {}));
+    }
+
+    canMatch(route: Route, segments: UrlSegment[]): Observable<boolean | UrlTree> | boolean | UrlTree {
+        return runInInjectionContext(this.injector, () => checkRoles(route, segments, {}));
     }
 }
 
 // Helper interface for route data
 export interface RoleRouteData {
-    roles?: string[]; // Any of these roles grants access
+    roles?: string[]; // Any of these internal roles grants access (Keycloak roles are not matched, as in the menu)
     allRoles?: string[]; // All of these roles are required
     excludeRoles?: string[]; // These roles are explicitly denied access
+    policy?: string; // Policy expression that must be satisfied, e.g. '(editor AND region_ch) OR admin' (see policy.utils.ts)
+    permissions?: Permission[]; // All of these permissions are required (see PermissionService)
+}
+
+/**
+ * Role requirement of the route data as policy, with the reason reported if it is not satisfied
+ */
+export interface RouteDataPolicy {
+    policy: AccessPolicy;
+    reason: string;
 }
@@ -0,0 +1,40 @@
+import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+
+import { GUARD_CONFIG } from '../config/tokens';
+import { LogFactoryService } from '../factories/logger.factory';
+import { Stage } from '../interfaces/stage.interface';
+import { EnvironmentService } from '../services/environment.service';
+import { resolveGuardContext, RouteGuardFn } from './guard-context';
+
+/**
+ * Options of stageGuard()
+ */
+export interface StageGuardOptions {
+    stages?: Stage[]; // The route is only available on these stages
+    excludeStages?: Stage[]; // The route is not available on these stages
+    redirectTo?: string; // Target if the route is not available (default: GUARD_CONFIG.stageDeniedUrl)
+}
+
+/**
+ * Functional guard restricting a route to certain stages (e.g. developer tools that must not be reachable in production).
+ * Works as canActivate, canActivateChild and canMatch.
+ *
+ * @example
+ * ```typescript
+ * { path: 'dev', canMatch: [stageGuard({ excludeStages: [Stage.PROD] })], loadChildren: () => import('./dev/dev.routes') }
+ * ```
+ */
+export function stageGuard(options: StageGuardOptions): RouteGuardFn {
+    return (route, stateOrSegments) => {
+        const stage = inject(EnvironmentService).stage;
+        const allowed = (!options.stages || options.stages.includes(stage)) && !options.excludeStages?.includes(stage);
+        if (allowed) {
+            return true;
+        }
+
+        const { url } = resolveGuardContext(route, stateOrSegments);
+        inject(LogFactoryService).createLogger('StageGuard').warn(`StageGuard: Route ${url} is not available on stage ${stage}.`);
+        return inject(Router).createUrlTree([options.redirectTo ?? inject(GUARD_CONFIG).stageDeniedUrl]);
+    };
+}
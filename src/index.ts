@@ -13,19 +13,31 @@
 // ============================================================================
 // Services
 // ============================================================================
+export * from './services/access-decision.service';
+export * from './services/access-matrix.service';
 export * from './services/api.service';
 export * from './services/api-log.service';
 export * from './services/auth.service';
 export * from './services/banner.service';
 export * from './services/developer.service';
 export * from './services/environment.service';
+export * from './services/har-replay.service';
+export * from './services/idle.service';
 export * from './services/loading.service';
 export * from './services/logger.service';
 export * from './services/menu.service';
+export * from './services/permission.service';
+export * from './services/policy.service';
+export * from './services/persona.service';
 export * from './services/message.service';
 export * from './services/preferences.service';
+export * from './services/return-url.service';
+export * from './services/role-simulation.service';
 export * from './services/roles.service';
+export * from './services/session-sync.service';
+export * from './services/step-up.service';
 export * from './services/storage.service';
+export * from './services/token-refresh.service';
 
 // ============================================================================
 // Interceptors
@@ -35,23 +47,34 @@ export * from './interceptors/api.error.interceptor';
 export * from './interceptors/api.log.interceptor';
 export * from './interceptors/api.auth.interceptor';
 export * from './interceptors/api.url.interceptor';
+export * from './interceptors/api.retry.interceptor';
+export * from './interceptors/api.mock.interceptor';
+export * from './interceptors/http-context.tokens';
 
 // ============================================================================
 // Guards
 // ============================================================================
 export * from './guards/auth.guard';
 export * from './guards/role.guard';
+export * from './guards/stage.guard';
+export * from './guards/guard-context';
 
 // ============================================================================
 // Interfaces
 // ============================================================================
+export * from './interfaces/access-decision.interface';
 export * from './interfaces/api.interface';
+export * from './interfaces/auth.interface';
 export * from './interfaces/banner.interface';
+export * from './interfaces/har.interface';
 export * from './interfaces/loglevel.interface';
 export * from './interfaces/message.interface';
+export * from './interfaces/mock-backend.interface';
+export * from './interfaces/persona.interface';
 export * from './interfaces/preferences.interface';
 export * from './interfaces/proxy.interface';
 export * from './interfaces/roles.interface';
+export * from './interfaces/session-sync.interface';
 export * from './providers/version-provider.interface';
 export * from './interfaces/environment.interface';
 export * from './interfaces/stage.interface';
@@ -59,6 +82,10 @@ export * from './interfaces/stage.interface';
 // ============================================================================
 // Providers
 // ============================================================================
+export * from './providers/auth-provider.interface';
+export * from './providers/fake-auth.provider';
+export * from './providers/keycloak-auth.provider';
+export * from './providers/oidc-auth.provider';
 export * from './providers/role-provider.interface';
 export * from './providers/version-provider.interface';
 
@@ -74,6 +101,10 @@ export * from './layout/app-menu/app-menu.component';
 export * from './layout/app-menu-actions/app-menu-actions.component';
 export * from './layout/app-profile-menu/app-profile-menu.component';
 export * from './layout/app-banner/app-banner.component';
+export * from './layout/app-session-timeout-dialog/app-session-timeout-dialog.component';
+export * from './layout/app-role-simulation-indicator/app-role-simulation-indicator.component';
+export * from './layout/app-access-decision-log/app-access-decision-log.component';
+export * from './layout/app-access-matrix/app-access-matrix.component';
 
 // ============================================================================
 // Configuration
@@ -85,12 +116,30 @@ export { THEME_CONFIG } from './config/tokens';
 export * from './config/roles.config';
 export * from './config/style.config';
 export * from './config/dev.config';
+export * from './config/idle.config';
+export * from './config/guard.config';
+export * from './config/mock.config';
 
 // ============================================================================
 // Factories
 // ============================================================================
 export * from './factories/logger.factory';
 
+// ============================================================================
+// Utils
+// ============================================================================
+export * from './utils/har.utils';
+export * from './utils/jwt.utils';
+export * from './utils/policy.utils';
+export * from './utils/route-matcher.utils';
+
+// ============================================================================
+// Directives
+// =========================================================================
+export * from './directives/can.directive';
+export * from './directives/conditional-template.directive';
+export * from './directives/role.directives';
+
 // ============================================================================
 // Pipes
 // ============================================================================
@@ -7,6 +7,7 @@ import { LogFactoryService } from '../factories/logger.factory';
 import { Stage } from '../interfaces/stage.interface';
 import { AuthService } from '../services/auth.service';
 import { EnvironmentService } from '../services/environment.service';
+import { ATTACH_AUTH_TOKEN, SKIP_AUTH } from './http-context.tokens';
 
 export const authInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
     const authService = inject(AuthService);
@@ -19,25 +20,77 @@ export const authInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>
         return next(request);
     }
 
-    // Only add the token if it's not a request to assets, keycloak or mockup data.
-    const keycloakUrl = environmentService.keycloakUrl;
+    // The request explicitly opted out of the token (ATTACH_AUTH_TOKEN = false is the deprecated form of SKIP_AUTH)
+    const attachToken = request.context.get(ATTACH_AUTH_TOKEN);
+    if (attachToken === false && environmentService.isDevelopment()) {
+        logger.warn(`ATTACH_AUTH_TOKEN = false is deprecated, use the SKIP_AUTH context for ${request.url}`);
+    }
+    if (request.context.get(SKIP_AUTH) || attachToken === false) {
+        return next(request);
+    }
 
-    if (!request.url.startsWith('/assets/') && !request.url.endsWith('.json') && !(keycloakUrl && request.url.startsWith(keycloakUrl))) {
+    // Only add the token if it's not a request to assets, the auth server or mockup data.
+    if (!request.url.startsWith('/assets/') && !request.url.endsWith('.json') && !authService.isAuthServerRequest(request.url)) {
+        // Never leak the token to hosts that are not in the allow-list, unless the request opted in
+        if (attachToken !== true && !isAllowedUrl(request.url, [environmentService.apiUrl, ...environmentService.authAllowedUrls])) {
+            if (environmentService.isDevelopment()) {
+                logger.warn(`Bearer token not attached to ${request.url}: URL is not in the allow-list (apiUrl, authAllowedUrls). Use the ATTACH_AUTH_TOKEN context to opt in.`);
+            }
+            return next(request);
+        }
+
+        // Attach the current token synchronously; only wait if a refresh is pending
+        if (!authService.isTokenRefreshPending()) {
+            return next(withBearerToken(request, authService.getCurrentToken()));
+        }
+        logger.debug('Token refresh pending, delaying request:', request.url);
         return from(authService.getToken()).pipe(
             // Convert Promise to Observable using from()
-            switchMap((token) => {
-                if (token) {
-                    const authReq = request.clone({
-                        setHeaders: {
-                            Authorization: `Bearer ${token}`
-                        }
-                    });
-                    return next(authReq);
-                }
-                return next(request); // Proceed without token if no token is available
-            })
+            switchMap((token) => next(withBearerToken(request, token)))
         );
     }
 
     return next(request);
 };
+
+/**
+ * Check whether a URL targets the own origin, or matches an allowed origin or URL prefix
+ */
+function isAllowedUrl(url: string, allowedUrls: string[]): boolean {
+    let target: URL;
+    try {
+        target = new URL(url, window.location.origin);
+    } catch {
+        return false;
+    }
+    // Relative URLs and the own origin (e.g. the dev proxy) are always allowed
+    if (target.origin === window.location.origin) {
+        return true;
+    }
+    return allowedUrls
+        .filter((allowedUrl) => !!allowedUrl)
+        .some((allowedUrl) => {
+            try {
+                const allowed = new URL(allowedUrl, window.location.origin);
+                // A bare origin allows all paths, otherwise the URL must start with the configured path prefix
+                if (allowed.pathname === '/') {
+                    return target.origin === allowed.origin;
+                }
+                const prefix = allowed.href.endsWith('/') ? allowed.href : `${allowed.href}/`;
+                return target.href === allowed.href || target.href.startsWith(prefix);
+            } catch {
+                return false;
+            }
+        });
+}
+
+function withBearerToken(request: HttpRequest<unknown>, token: string): HttpRequest<unknown> {
+    if (!token) {
+        return request; // Proceed without token if no token is available
+    }
+    return request.clone({
+        setHeaders: {
+            Authorization: `Bearer ${token}`
+        }
+    });
+}
@@ -1,4 +1,4 @@
-import { Observable, throwError, TimeoutError } from 'rxjs';
+import { identity, Observable, throwError, TimeoutError } from 'rxjs';
 import { catchError, timeout } from 'rxjs/operators';
 
 import {
@@ -11,29 +11,33 @@ import { TranslateService } from '@ngx-translate/core';
 import { LogFactoryService } from '../factories/logger.factory';
 import { BannerService } from '../services/banner.service';
 import { AppMessageService } from '../services/message.service';
+import { migrateSuppressToastHeader, SILENT_BANNER, SUPPRESS_TOASTS, TIMEOUT_MS } from './http-context.tokens';
 
-export const errorInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+export const errorInterceptor: HttpInterceptorFn = (originalRequest: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
     const router = inject(Router);
     const messageService = inject(AppMessageService);
     const bannerService = inject(BannerService);
     const translate = inject(TranslateService);
     const logger = inject(LogFactoryService).createLogger('ErrorInterceptor');
-    const timeoutValue = 120000; // 120s until a timeout is reached
+    const request = migrateSuppressToastHeader(originalRequest);
+    const timeoutValue = request.context.get(TIMEOUT_MS); // 120s until a timeout is reached by default
 
     // Check if this request should suppress toast messages (e.g., from job-service polling)
-    const suppressToasts = request.headers.has('X-Suppress-Error-Toast');
+    const suppressToasts = request.context.get(SUPPRESS_TOASTS);
     if (suppressToasts) {
-        logger.debug('Suppress toast header detected for:', request.url);
+        logger.debug('Toasts suppressed for:', request.url);
     }
+    // Errors of requests with a silent banner neither show nor silence the backend error banner
+    const silentBanner = request.context.get(SILENT_BANNER);
 
     return next(request).pipe(
-        timeout(timeoutValue),
+        timeoutValue > 0 ? timeout(timeoutValue) : identity,
         catchError((error: HttpErrorResponse | TimeoutError) => {
             logger.error('Catched error:', error);
 
             // Handle TimeoutError (Backend does not respond)
             if (error instanceof TimeoutError) {
-                const shouldSilence = bannerService.registerError();
+                const shouldSilence = !silentBanner && bannerService.registerError();
 
                 if (!shouldSilence && !suppressToasts) {
                     const summary = translate.instant('core.interceptors.error.timeout.summary');
@@ -57,11 +61,13 @@ export const errorInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown
 
                 // If the error is >=500, register with banner service and potentially silence toast
                 if (error.status >= 500) {
-                    const shouldSilence = bannerService.registerError({
-                        type: 'error',
-                        title: 'core.backendErrorBanner.title',
-                        message: 'core.backendErrorBanner.message'
-                    });
+                    const shouldSilence =
+                        !silentBanner &&
+                        bannerService.registerError({
+                            type: 'error',
+                            title: 'core.backendErrorBanner.title',
+                            message: 'core.backendErrorBanner.message'
+                        });
                     logger.debug('shouldSilence:', shouldSilence);
 
                     if (!shouldSilence && !suppressToasts) {
@@ -87,7 +93,7 @@ export const errorInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown
 
                 // If the error is a 403, redirect to the status page with the error message
                 if (error.status === 403) {
-                    router.navigate(['/status/403'], { queryParams: { error: 'forbidden' } });
+                    router.navigate(['/status/403'], { queryParams: { error: 'forbidden', returnUrl: router.url } });
                 }
             }
 
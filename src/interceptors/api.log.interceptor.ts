@@ -6,15 +6,18 @@ import {
 } from '@angular/common/http';
 import { inject } from '@angular/core';
 
+import { MockResolution } from '../interfaces/mock-backend.interface';
 import { ApiLogService } from '../services/api-log.service';
 import { EnvironmentService } from '../services/environment.service';
+import { MOCK_BACKEND_HEADER } from './api.mock.interceptor';
+import { SKIP_LOGGING } from './http-context.tokens';
 
 export const apiLoggingInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
     const environmentService = inject(EnvironmentService);
     const apiLogService = inject(ApiLogService);
 
-    // Don't log API calls in production
-    if (environmentService.isProduction()) {
+    // Don't log API calls in production or if the request opted out
+    if (environmentService.isProduction() || request.context.get(SKIP_LOGGING)) {
         return next(request);
     }
 
@@ -22,7 +25,7 @@ export const apiLoggingInterceptor: HttpInterceptorFn = (request: HttpRequest<un
 
     const logEntry = apiLogService.addEntry({
         method: request.method,
-        url: request.url,
+        url: request.urlWithParams,
         status: 'pending',
         requestHeaders: request.headers.keys().reduce((acc, key) => ({ ...acc, [key]: request.headers.get(key) }), {}),
         requestBody: request.body
@@ -35,9 +38,12 @@ export const apiLoggingInterceptor: HttpInterceptorFn = (request: HttpRequest<un
                 apiLogService.updateEntry({
                     ...logEntry,
                     status: 'succeeded',
+                    statusCode: event.status,
+                    statusText: event.statusText,
                     responseHeaders: event.headers.keys().reduce((acc, key) => ({ ...acc, [key]: event.headers.get(key) }), {}),
                     responseBody: event.body,
-                    duration
+                    duration,
+                    mock: (event.headers.get(MOCK_BACKEND_HEADER) as MockResolution | null) ?? undefined
                 });
             }
         }),
@@ -46,8 +52,13 @@ export const apiLoggingInterceptor: HttpInterceptorFn = (request: HttpRequest<un
             apiLogService.updateEntry({
                 ...logEntry,
                 status: 'failed',
+                statusCode: error.status,
+                statusText: error.statusText,
+                responseHeaders: error.headers?.keys().reduce((acc, key) => ({ ...acc, [key]: error.headers.get(key) }), {}),
                 responseBody: error.error,
-                duration
+                duration,
+                // Requests without a mock route or fixture are marked 'unmatched'
+                mock: (error.headers?.get(MOCK_BACKEND_HEADER) as MockResolution | null) ?? undefined
             });
             return throwError(() => error);
         })
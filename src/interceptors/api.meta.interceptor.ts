@@ -13,22 +13,25 @@ import { Stage } from '../interfaces/stage.interface';
 import { ApiService } from '../services/api.service';
 import { EnvironmentService } from '../services/environment.service';
 import { AppMessageService } from '../services/message.service';
+import { migrateSuppressToastHeader, RAW_RESPONSE, SUPPRESS_TOASTS } from './http-context.tokens';
 
-export const apiInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+export const apiInterceptor: HttpInterceptorFn = (originalRequest: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
     const apiMetaService = inject(ApiService);
     const router = inject(Router);
     const environmentService = inject(EnvironmentService);
     const messageService = inject(AppMessageService);
     const logFactory = inject(LogFactoryService);
     const logger = logFactory.createLogger('ApiInterceptor');
+    const request = migrateSuppressToastHeader(originalRequest);
 
     // Check if this request should suppress toast messages (e.g., from job-service polling)
-    const suppressToasts = request.headers.has('X-Suppress-Error-Toast');
+    const suppressToasts = request.context.get(SUPPRESS_TOASTS);
 
     // Skip the request if it's...
     // - a call to /assets/ (static assets)
     // - a call to external URLs (http:// or https://)
-    if (request.url.startsWith('/assets') || request.url.startsWith('http://') || request.url.startsWith('https://')) {
+    // - a request for the raw response
+    if (request.url.startsWith('/assets') || request.url.startsWith('http://') || request.url.startsWith('https://') || request.context.get(RAW_RESPONSE)) {
         return next(request);
     }
 
@@ -0,0 +1,161 @@
+import { defer, isObservable, mergeMap, Observable, of, throwError, timer } from 'rxjs';
+import { catchError, filter, map } from 'rxjs/operators';
+
+import {
+    HttpBackend, HttpErrorResponse, HttpEvent, HttpHandlerFn, HttpHeaders, HttpInterceptorFn, HttpRequest, HttpResponse
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+
+import { MOCK_BACKEND_CONFIG, MockBackendConfig } from '../config/tokens';
+import { LogFactoryService } from '../factories/logger.factory';
+import { ApiResponse } from '../interfaces/api.interface';
+import { HarEntry } from '../interfaces/har.interface';
+import { MockResolution, MockRoute } from '../interfaces/mock-backend.interface';
+import { EnvironmentService } from '../services/environment.service';
+import { HarReplayService } from '../services/har-replay.service';
+import { readHarContent } from '../utils/har.utils';
+import { compileRoutePattern, matchRoutePattern, splitRoutePath } from '../utils/route-matcher.utils';
+
+/**
+ * Recorded response headers that do not apply to the replayed body
+ */
+const SKIPPED_REPLAY_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding'];
+
+/**
+ * Response header telling how the mock backend resolved a request (see MockResolution); shown in the API log
+ */
+export const MOCK_BACKEND_HEADER = 'X-Mock-Backend';
+
+/**
+ * Mock backend for the MOCK stage: answers requests from the route table and fixture files of MOCK_BACKEND_CONFIG instead of the network.
+ *
+ * Resolution order:
+ * 1. Injected error (errorRate) with errorStatus
+ * 2. Recorded response of the HAR replay (harUrl or a file loaded into the HarReplayService)
+ * 3. Route table entry matching method and path ('/api/users/:id'); the first matching entry wins
+ * 4. Fixture file '{fixtureBaseUrl}/{method}/{path}.json', e.g. GET /api/users/42 -> /assets/mock/get/api/users/42.json
+ * 5. 404 with the looked up locations, marked as unmatched in the API log
+ * Responses are wrapped in the { meta, data } envelope expected by the apiInterceptor unless the route is raw or the body already is an envelope.
+ * In all other stages and for the passThroughUrls, requests are passed on unchanged.
+ *
+ * Register it as the last interceptor, so it replaces the network and the other interceptors (logging, retry, errors) still apply.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(withInterceptors([errorInterceptor, apiLoggingInterceptor, authInterceptor, apiInterceptor, mockBackendInterceptor]))
+ * ```
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+    const environmentService = inject(EnvironmentService);
+    const config = inject(MOCK_BACKEND_CONFIG);
+
+    if (!environmentService.isMock() || config.passThroughUrls.some((url) => request.url.startsWith(url))) {
+        return next(request);
+    }
+
+    const httpBackend = inject(HttpBackend);
+    const harReplayService = inject(HarReplayService);
+    const logger = inject(LogFactoryService).createLogger('MockBackendInterceptor');
+    const url = new URL(request.urlWithParams, window.location.origin);
+    const path = '/' + splitRoutePath(url.pathname).join('/');
+
+    const envelope = (data: unknown): ApiResponse => ({
+        meta: { session: 'mock-session', stage: environmentService.stage, version: environmentService.getAppVersion(), timestamp: new Date().toISOString() },
+        data
+    });
+    const respond = (resolution: MockResolution, body: unknown, status: number = 200, headers: Record<string, string> = {}): Observable<HttpEvent<unknown>> => {
+        const responseHeaders = new HttpHeaders({ ...headers, [MOCK_BACKEND_HEADER]: resolution });
+        if (status === 0 || status >= 400) {
+            return throwError(() => new HttpErrorResponse({ error: body, headers: responseHeaders, status, url: request.urlWithParams }));
+        }
+        return of(new HttpResponse({ body, headers: responseHeaders, status, url: request.urlWithParams }));
+    };
+
+    const replay = (entry: HarEntry): Observable<HttpEvent<unknown>> => {
+        const body = readHarContent(entry.response.content);
+        const status = entry.response.status;
+        const headers = Object.fromEntries(entry.response.headers.filter((header) => ![...SKIPPED_REPLAY_HEADERS, MOCK_BACKEND_HEADER.toLowerCase()].includes(header.name.toLowerCase())).map((header) => [header.name, header.value]));
+        return respond('replay', status === 0 || status >= 400 || isApiResponse(body) ? body : envelope(body), status, headers);
+    };
+
+    const route = config.routes.find((candidate) => (candidate.method === '*' || candidate.method.toUpperCase() === request.method) && matchRoutePattern(compileRoutePattern(candidate.path), path, true));
+    const resolveMock = (): Observable<HttpEvent<unknown>> => {
+        if (route) {
+            return resolveRoute(route, request, path, url).pipe(
+                mergeMap((data) => respond('route', route.raw || (route.status ?? 200) >= 400 ? data : envelope(data), route.status, route.headers)),
+                catchError((error: unknown) => {
+                    // Errors thrown by handlers become server errors, unless they already are HTTP errors
+                    if (error instanceof HttpErrorResponse) {
+                        return throwError(() => error);
+                    }
+                    logger.error(`Mock route ${route.method} ${route.path} failed:`, error);
+                    return respond('route', { message: String(error) }, 500);
+                })
+            );
+        }
+        return resolveFixture(httpBackend, config, request.method, path).pipe(
+            mergeMap((fixture) => {
+                if (fixture === undefined) {
+                    const lookedUp = config.fixtureBaseUrl ? `no recording, no route and no fixture ${getFixtureUrl(config.fixtureBaseUrl, request.method, path)}` : 'no recording and no route';
+                    logger.warn(`Unmatched mock request ${request.method} ${path}: ${lookedUp}`);
+                    return respond('unmatched', { message: `Mock backend: ${lookedUp} for ${request.method} ${path}` }, 404);
+                }
+                return respond('fixture', isApiResponse(fixture) ? fixture : envelope(fixture));
+            })
+        );
+    };
+
+    let response$: Observable<HttpEvent<unknown>>;
+    if (config.errorRate > 0 && Math.random() < config.errorRate) {
+        logger.debug(`Injecting error ${config.errorStatus} for ${request.method} ${path}`);
+        response$ = respond('injected-error', { message: `Mock backend: injected error for ${request.method} ${path}` }, config.errorStatus);
+    } else {
+        response$ = harReplayService.findEntry(request).pipe(mergeMap((entry) => (entry ? replay(entry) : resolveMock())));
+    }
+
+    // Delay errors as well, the delay operator only delays values
+    return timer(getLatency(route?.latencyMs ?? config.latencyMs)).pipe(mergeMap(() => response$));
+};
+
+function resolveRoute(route: MockRoute, request: HttpRequest<unknown>, path: string, url: URL): Observable<unknown> {
+    return defer(() => {
+        if (!route.handler) {
+            return of(route.response ?? null);
+        }
+        const query: Record<string, string> = {};
+        url.searchParams.forEach((value, key) => (query[key] = value));
+        const result = route.handler({ request, params: matchRoutePattern(route.path, path, true) ?? {}, query, body: request.body });
+        return isObservable(result) ? result : of(result);
+    });
+}
+
+/**
+ * Load the fixture file of the request; undefined if there is none
+ */
+function resolveFixture(httpBackend: HttpBackend, config: MockBackendConfig, method: string, path: string): Observable<unknown> {
+    if (!config.fixtureBaseUrl) {
+        return of(undefined);
+    }
+    // The HttpBackend bypasses the interceptors, so fixture requests neither show up in the API log nor are mocked themselves
+    return httpBackend.handle(new HttpRequest('GET', getFixtureUrl(config.fixtureBaseUrl, method, path))).pipe(
+        filter((event): event is HttpResponse<unknown> => event instanceof HttpResponse),
+        map((event) => event.body),
+        catchError((error: unknown) => (error instanceof HttpErrorResponse && error.status === 404 ? of(undefined) : throwError(() => error)))
+    );
+}
+
+function getFixtureUrl(fixtureBaseUrl: string, method: string, path: string): string {
+    return `${fixtureBaseUrl.replace(/\/$/, '')}/${method.toLowerCase()}${path === '/' ? '/index' : path}.json`;
+}
+
+function getLatency(latencyMs: number | [number, number]): number {
+    if (Array.isArray(latencyMs)) {
+        const [min, max] = latencyMs;
+        return Math.round(min + Math.random() * (max - min));
+    }
+    return latencyMs;
+}
+
+function isApiResponse(body: unknown): body is ApiResponse {
+    return !!body && typeof body === 'object' && 'meta' in body && 'data' in body;
+}
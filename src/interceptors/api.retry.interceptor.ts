@@ -0,0 +1,82 @@
+import { Observable, retry, throwError, timer } from 'rxjs';
+
+import { HttpErrorResponse, HttpEvent, HttpHandlerFn, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+
+import { RETRY_CONFIG } from '../config/tokens';
+import { LogFactoryService } from '../factories/logger.factory';
+import { RetryPolicy } from '../interfaces/api.interface';
+import { RETRY_POLICY } from './http-context.tokens';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Retries transient failures (network errors and the status codes of the retry policy) with exponential backoff.
+ *
+ * Only idempotent requests are retried unless the policy allows retryNonIdempotent. A Retry-After header (seconds or HTTP date)
+ * replaces the computed delay; if it exceeds maxDelayMs, the error is passed on immediately.
+ * The policy comes from RETRY_CONFIG and can be overridden per request with the RETRY_POLICY context token.
+ *
+ * Register it after the errorInterceptor, so only the final failure reaches the banner and toast handling
+ * (the TIMEOUT_MS of the errorInterceptor then covers all attempts), and before the authInterceptor, so every attempt gets the current token.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(withInterceptors([errorInterceptor, retryInterceptor, authInterceptor]))
+ * ```
+ */
+export const retryInterceptor: HttpInterceptorFn = (request: HttpRequest<unknown>, next: HttpHandlerFn): Observable<HttpEvent<unknown>> => {
+    const override = request.context.get(RETRY_POLICY);
+    if (override === false) {
+        return next(request);
+    }
+    const policy: RetryPolicy = { ...inject(RETRY_CONFIG), ...override };
+    if (policy.maxRetries <= 0 || (!policy.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(request.method.toUpperCase()))) {
+        return next(request);
+    }
+    const logger = inject(LogFactoryService).createLogger('RetryInterceptor');
+
+    return next(request).pipe(
+        retry({
+            count: policy.maxRetries,
+            delay: (error: unknown, retryCount: number) => {
+                if (!(error instanceof HttpErrorResponse) || (error.status !== 0 && !policy.retryOnStatus.includes(error.status))) {
+                    return throwError(() => error);
+                }
+                const delayMs = getRetryDelay(error, retryCount, policy);
+                if (delayMs === null) {
+                    logger.debug(`Retry-After of ${request.url} exceeds the maximum delay, not retrying`);
+                    return throwError(() => error);
+                }
+                logger.debug(`Retrying ${request.method} ${request.url} (${retryCount}/${policy.maxRetries}) after ${delayMs}ms, status ${error.status}`);
+                return timer(delayMs);
+            }
+        })
+    );
+};
+
+/**
+ * Delay before the retry in milliseconds, or null if the server asks to wait longer than maxDelayMs
+ */
+function getRetryDelay(error: HttpErrorResponse, retryCount: number, policy: RetryPolicy): number | null {
+    const retryAfterMs = parseRetryAfter(error.headers?.get('Retry-After'));
+    if (retryAfterMs !== null) {
+        return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+    }
+    const backoffMs = Math.min(policy.baseDelayMs * 2 ** (retryCount - 1), policy.maxDelayMs);
+    return policy.jitter ? Math.round(backoffMs / 2 + (Math.random() * backoffMs) / 2) : backoffMs;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+    if (/^\d+$/.test(value.trim())) {
+        return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,85 @@
+import { HttpContext, HttpContextToken, HttpRequest } from '@angular/common/http';
+
+import { RetryPolicy } from '../interfaces/api.interface';
+
+/**
+ * Per-request opt-in to the bearer token attached by the authInterceptor:
+ * - true: attach the token even if the URL is not in the allow-list
+ * - undefined (default): attach the token only to the apiUrl, the own origin and the configured authAllowedUrls
+ * - false: deprecated alias of SKIP_AUTH, use SKIP_AUTH to send a request without token
+ *
+ * @example
+ * ```typescript
+ * this.http.get('https://partner.example.com/data', { context: new HttpContext().set(ATTACH_AUTH_TOKEN, true) });
+ * ```
+ */
+export const ATTACH_AUTH_TOKEN = new HttpContextToken<boolean | undefined>(() => undefined);
+
+/**
+ * Do not show toasts for errors and messages of the request (apiInterceptor, errorInterceptor), e.g. for background polling
+ *
+ * @example
+ * ```typescript
+ * this.http.get('/api/jobs/status', { context: new HttpContext().set(SUPPRESS_TOASTS, true).set(SKIP_LOGGING, true) });
+ * ```
+ */
+export const SUPPRESS_TOASTS = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Send the request without bearer token and without waiting for a pending token refresh (authInterceptor).
+ * Replaces ATTACH_AUTH_TOKEN = false.
+ */
+export const SKIP_AUTH = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Return the response body as sent by the backend, without unwrapping the { meta, data } envelope (apiInterceptor)
+ */
+export const RAW_RESPONSE = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Timeout of the request in milliseconds; 0 disables the timeout (errorInterceptor)
+ */
+export const TIMEOUT_MS = new HttpContextToken<number>(() => 120000);
+
+/**
+ * Do not record the request in the API log (apiLoggingInterceptor)
+ */
+export const SKIP_LOGGING = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Do not count errors of the request for the backend error banner (errorInterceptor)
+ */
+export const SILENT_BANNER = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Retry policy of the request, merged over RETRY_CONFIG: null uses the configured policy, false disables retries (retryInterceptor)
+ *
+ * @example
+ * ```typescript
+ * this.http.post('/api/search', query, { context: new HttpContext().set(RETRY_POLICY, { maxRetries: 2, retryNonIdempotent: true }) });
+ * ```
+ */
+export const RETRY_POLICY = new HttpContextToken<Partial<RetryPolicy> | false | null>(() => null);
+
+/**
+ * @deprecated Use the SUPPRESS_TOASTS context token, headers are sent to the backend
+ */
+export const SUPPRESS_ERROR_TOAST_HEADER = 'X-Suppress-Error-Toast';
+
+/**
+ * Take over the deprecated X-Suppress-Error-Toast header as SUPPRESS_TOASTS context and remove it from the request.
+ * The clone gets a copy of the context, the context of the original request may be shared with other requests.
+ */
+export function migrateSuppressToastHeader(request: HttpRequest<unknown>): HttpRequest<unknown> {
+    if (!request.headers.has(SUPPRESS_ERROR_TOAST_HEADER)) {
+        return request;
+    }
+    const context = new HttpContext();
+    for (const token of request.context.keys()) {
+        context.set(token, request.context.get(token));
+    }
+    return request.clone({
+        headers: request.headers.delete(SUPPRESS_ERROR_TOAST_HEADER),
+        context: context.set(SUPPRESS_TOASTS, true)
+    });
+}
@@ -0,0 +1,32 @@
+import { Permission } from './roles.interface';
+
+/**
+ * Rule that decided about the access to a route
+ */
+export type AccessDecisionRule = 'route-data' | 'route-mapping' | 'permission' | 'error';
+
+/**
+ * Structured access decision of a guard, recorded in the decision log (see AccessDecisionService)
+ */
+export interface AccessDecision {
+    id: string;
+    timestamp: Date;
+    route: string;
+    granted: boolean;
+    rule: AccessDecisionRule;
+    reason?: string; // Reason of a denial, e.g. 'insufficient-roles' (also passed as query parameter)
+    policy?: string; // The evaluated rule in policy syntax, e.g. 'NOT readonly AND (editor OR admin)'
+    requiredRoles?: string[]; // Roles referenced by the evaluated rule
+    presentRoles: string[]; // Roles of the user the rule was evaluated against
+    routeMapping?: RouteRoleMapping; // ROUTE_ROLE_MAPPINGS entry matching the route
+    permissions?: Permission[]; // Required permissions (rule 'permission')
+    simulated: boolean; // Whether a role simulation was active
+}
+
+/**
+ * Entry of ROUTE_ROLE_MAPPINGS
+ */
+export interface RouteRoleMapping {
+    pattern: string;
+    roles: string[];
+}
@@ -1,3 +1,4 @@
+import { MockResolution } from './mock-backend.interface';
 import { Stage } from './stage.interface';
 
 export interface ApiMetadata {
@@ -20,12 +21,27 @@ export interface ApiLogEntry {
     id: number;
     timestamp: Date;
     method: string;
-    url: string;
+    url: string; // URL with the query parameters of the request params
     status: 'pending' | 'succeeded' | 'failed';
+    statusCode?: number; // HTTP status of the response (0 for network errors)
+    statusText?: string;
     requestHeaders: unknown;
     requestBody: unknown;
     responseHeaders?: unknown;
     responseBody?: unknown;
     duration?: number;
+    mock?: MockResolution; // How the mock backend resolved the request (MOCK stage only)
     expanded?: boolean; // For UI expansion state
 }
+
+/**
+ * Retry behaviour of the retryInterceptor (see RETRY_CONFIG and the RETRY_POLICY context token)
+ */
+export interface RetryPolicy {
+    maxRetries: number; // Retries after the first attempt; 0 disables retries
+    baseDelayMs: number; // Delay before the first retry, doubled for every further retry
+    maxDelayMs: number; // Upper limit of a single delay; a longer Retry-After ends the retries
+    jitter: boolean; // Randomize the delays between 50% and 100%, so clients do not retry in lockstep
+    retryOnStatus: number[]; // Status codes that are retried; network errors (status 0) are always retried
+    retryNonIdempotent?: boolean; // Also retry POST and PATCH requests
+}
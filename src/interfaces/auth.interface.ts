@@ -0,0 +1,87 @@
+/**
+ * Parsed claims of an access, ID or refresh token.
+ * Only the claims used by the core library are typed explicitly, all others are available via index access.
+ */
+export interface AuthTokenClaims {
+    sub?: string;
+    exp?: number; // Expiry as seconds since epoch
+    iat?: number; // Issued at as seconds since epoch
+    auth_time?: number; // Time of the (last) interactive authentication as seconds since epoch
+    acr?: string; // Authentication context class reference (e.g. 'mfa')
+    email?: string;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    preferred_username?: string;
+    realm_access?: { roles: string[] };
+    resource_access?: Record<string, { roles: string[] }>;
+    [claim: string]: unknown;
+}
+
+/**
+ * User profile as delivered by the auth provider (shape compatible with the Keycloak profile).
+ */
+export interface AuthUserProfile {
+    id?: string;
+    username?: string;
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    emailVerified?: boolean;
+    attributes?: Record<string, unknown>;
+}
+
+/**
+ * Error reported by an auth provider
+ */
+export interface AuthError {
+    error: string;
+    error_description?: string;
+}
+
+/**
+ * Options for a login redirect
+ */
+export interface AuthLoginOptions {
+    redirectUri?: string;
+    prompt?: 'none' | 'login' | 'consent';
+    maxAge?: number; // Maximum allowed age of the authentication in seconds
+    acrValues?: string; // Requested authentication context class(es), space separated
+    loginHint?: string;
+    idpHint?: string;
+    locale?: string;
+}
+
+/**
+ * Runtime configuration handed to the auth provider by the AuthService.
+ * Derived from the CoreEnvironment when the AuthService is initialized.
+ */
+export interface AuthProviderConfig {
+    url: string;
+    realm: string;
+    clientId: string;
+    onLoad: 'login-required' | 'check-sso';
+    pkceMethod: 'S256';
+    silentCheckSsoRedirectUri?: string;
+}
+
+/**
+ * Events emitted by an auth provider.
+ * Mirrors the callbacks of the Keycloak JS adapter.
+ */
+export type AuthProviderEvent =
+    | { type: 'ready'; authenticated: boolean }
+    | { type: 'authSuccess' }
+    | { type: 'authError'; error: AuthError }
+    | { type: 'authRefreshSuccess' }
+    | { type: 'authRefreshError'; definitive?: boolean } // definitive: the refresh token was rejected or is missing, retrying is pointless
+    | { type: 'authLogout' }
+    | { type: 'tokenExpired' };
+
+/**
+ * Requirements for a recent or stronger authentication (step-up), e.g. for payments or data exports
+ */
+export interface StepUpRequirement {
+    maxAgeSeconds?: number; // Maximum age of the last interactive login (auth_time claim)
+    acr?: string; // Required authentication context class (acr claim), e.g. 'mfa'
+}
@@ -14,6 +14,8 @@ export interface CoreEnvironment {
     keycloakClientId?: string;
     keycloakOnLoad?: 'login-required' | 'check-sso';
     keycloakPkceMethod?: 'S256';
+    authAllowedUrls?: string[]; // Additional origins or URL prefixes that receive the bearer token (apiUrl is always included)
+    features?: Record<string, boolean>; // Feature flags, e.g. used by access policies ('feature:<name>')
     logLevel: LogLevel;
 }
 
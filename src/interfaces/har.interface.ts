@@ -0,0 +1,76 @@
+/**
+ * HTTP Archive (HAR) 1.2, the subset written by ApiLogService.exportHar and read by the HAR replay of the mock backend.
+ * See http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface Har {
+    log: HarLog;
+}
+
+export interface HarLog {
+    version: string;
+    creator: HarCreator;
+    entries: HarEntry[];
+    comment?: string;
+}
+
+export interface HarCreator {
+    name: string;
+    version: string;
+}
+
+export interface HarEntry {
+    startedDateTime: string; // ISO 8601 date string
+    time: number; // Total time in milliseconds
+    request: HarRequest;
+    response: HarResponse;
+    cache: Record<string, never>;
+    timings: HarTimings;
+    comment?: string;
+}
+
+export interface HarRequest {
+    method: string;
+    url: string; // Absolute URL
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: HarPostData;
+    headersSize: number; // -1 if unknown
+    bodySize: number; // -1 if unknown
+}
+
+export interface HarResponse {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: HarContent;
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+}
+
+export interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+export interface HarPostData {
+    mimeType: string;
+    text: string;
+}
+
+export interface HarContent {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: string; // 'base64' for binary content
+}
+
+export interface HarTimings {
+    send: number;
+    wait: number;
+    receive: number;
+}
@@ -0,0 +1,39 @@
+import { Observable } from 'rxjs';
+
+import { HttpRequest } from '@angular/common/http';
+
+/**
+ * Request as seen by a mock route handler
+ */
+export interface MockRequest {
+    request: HttpRequest<unknown>;
+    params: Record<string, string>; // Values of the ':name' placeholders of the route path
+    query: Record<string, string>;
+    body: unknown;
+}
+
+/**
+ * Entry of the mock route table
+ *
+ * @example
+ * ```typescript
+ * { method: 'GET', path: '/api/offerten/:id', handler: ({ params }) => ({ id: params['id'], status: 'draft' }) }
+ * { method: 'DELETE', path: '/api/offerten/:id', status: 204 }
+ * { method: 'POST', path: '/api/offerten', status: 422, response: { message: 'Invalid offer' } }
+ * ```
+ */
+export interface MockRoute {
+    method: string; // HTTP method, '*' for all methods
+    path: string; // Route pattern ('/api/users/:id', '*' and '**' wildcards), matched against the whole path
+    response?: unknown; // Static response data
+    handler?: (request: MockRequest) => unknown | Observable<unknown>; // Dynamic response data; throw an HttpErrorResponse for errors
+    status?: number; // Default 200; statuses >= 400 are returned as HttpErrorResponse with the response as error
+    headers?: Record<string, string>;
+    raw?: boolean; // Return the data as is instead of wrapping it in the { meta, data } envelope
+    latencyMs?: number; // Overrides the configured latency
+}
+
+/**
+ * How a request was resolved by the mockBackendInterceptor (X-Mock-Backend response header)
+ */
+export type MockResolution = 'replay' | 'route' | 'fixture' | 'unmatched' | 'injected-error';
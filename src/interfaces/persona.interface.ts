@@ -0,0 +1,15 @@
+import { AuthTokenClaims } from './auth.interface';
+
+/**
+ * Simulated user for the MOCK stage
+ */
+export interface MockPersona {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    description?: string; // Shown in the persona picker, e.g. 'Clerk without admin rights'
+    keycloakRoles: string[]; // Mapped to internal roles like real Keycloak roles
+    internalRoles?: string[]; // Internal roles granted directly, without role mapping
+    claims?: Partial<AuthTokenClaims>; // Additional token claims (e.g. acr, custom claims)
+}
@@ -6,9 +6,10 @@ export interface RoleMapping {
 }
 
 export interface CachedRoleMappings {
-    mappings: RoleMapping[];
+    mappings: InternalRole[];
     expiry: number; // Timestamp for when the cache expires
     cacheValidThru?: string; // Optional ISO timestamp from API meta for server-side invalidation
+    sub?: string; // Subject of the user the mappings were loaded for
 }
 
 export interface EntitlementItem {
@@ -20,11 +21,29 @@ export interface EntitlementItem {
     isActive: boolean;
 }
 
+export type PermissionOperation = 'C' | 'R' | 'U' | 'D'; // Create, read, update, delete
+
+export interface Permission {
+    op: PermissionOperation;
+    area: string; // Matches EntitlementItem.bereich
+}
+
 export interface InternalRole {
     name: string; // e.g., 'aktenentscheid', 'fuv_offerte', 'kpm_tool', etc.
     displayName: string; // Human readable name
     description: string;
     keycloakRoles: string[]; // List of Keycloak roles that grant access to this app
+    inherits?: string[]; // Internal roles granted transitively by this role, e.g. 'teamlead' inherits ['clerk']; '*' makes it a superuser (see SUPERUSER_ROLE)
+}
+
+/**
+ * Sources of the user's Keycloak roles; the roles of all sources are combined into one role set
+ */
+export interface RoleSourceConfig {
+    realmRoles: boolean; // Include the realm roles
+    clients?: string[]; // Clients whose resource roles are included (default: the configured keycloakClientId)
+    claims?: string[]; // Token claims with additional roles, e.g. 'groups' (dot notation for nested claims)
+    prefixClientRoles?: boolean; // Prefix client roles with the client id ('<clientId>:<role>') to keep roles of different clients apart
 }
 
 export interface MenuItemRole {
@@ -33,6 +52,16 @@ export interface MenuItemRole {
     excludeRoles?: string[]; // These roles are explicitly denied access
 }
 
+/**
+ * Change of the user's effective internal roles (see AuthService.roleChanges$)
+ */
+export interface RoleChange {
+    previousRoles: string[];
+    roles: string[];
+    added: string[];
+    removed: string[];
+}
+
 export interface UserRole {
     name: string;
     displayName: string;
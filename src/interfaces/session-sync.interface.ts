@@ -0,0 +1,11 @@
+/**
+ * Session events shared between the tabs of the application
+ */
+export type SessionSyncEventType = 'login' | 'logout' | 'tokenRefresh' | 'roleMappingsChanged' | 'activity';
+
+export interface SessionSyncMessage {
+    type: SessionSyncEventType;
+    tabId: string; // Id of the publishing tab
+    timestamp: number;
+    payload?: Record<string, unknown>;
+}
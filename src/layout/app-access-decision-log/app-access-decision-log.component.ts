@@ -0,0 +1,32 @@
+import { BadgeModule } from 'primeng/badge';
+import { ButtonModule } from 'primeng/button';
+
+import { CommonModule } from '@angular/common';
+import { Component, inject, signal } from '@angular/core';
+
+import { AccessDecisionService } from '../../services/access-decision.service';
+
+/**
+ * (Developer) Decision log of the route guards: lists the latest access decisions with their technical details.
+ * Add it to your developer page.
+ */
+@Component({
+    selector: 'app-access-decision-log',
+    standalone: true,
+    imports: [CommonModule, BadgeModule, ButtonModule],
+    templateUrl: './app-access-decision-log.component.html'
+})
+export class AccessDecisionLogComponent {
+    private accessDecisionService = inject(AccessDecisionService);
+
+    readonly decisions = this.accessDecisionService.decisions;
+    readonly expandedId = signal<string | null>(null);
+
+    toggle(id: string): void {
+        this.expandedId.update((expandedId) => (expandedId === id ? null : id));
+    }
+
+    clear(): void {
+        this.accessDecisionService.clear();
+    }
+}
@@ -0,0 +1,54 @@
+import { ButtonModule } from 'primeng/button';
+
+import { CommonModule } from '@angular/common';
+import { Component, inject, OnInit, signal } from '@angular/core';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AccessMatrix, AccessMatrixService } from '../../services/access-matrix.service';
+
+/**
+ * (Developer) Role/route access matrix with CSV and JSON export, e.g. for security reviews.
+ * Add it to your developer page.
+ */
+@Component({
+    selector: 'app-access-matrix',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, TranslateModule],
+    templateUrl: './app-access-matrix.component.html'
+})
+export class AccessMatrixComponent implements OnInit {
+    private accessMatrixService = inject(AccessMatrixService);
+
+    readonly matrix = signal<AccessMatrix | null>(null);
+
+    ngOnInit(): void {
+        this.refresh();
+    }
+
+    refresh(): void {
+        this.accessMatrixService.buildMatrix().subscribe((matrix) => this.matrix.set(matrix));
+    }
+
+    exportCsv(): void {
+        const matrix = this.matrix();
+        if (matrix) {
+            this.download(this.accessMatrixService.toCsv(matrix), 'access-matrix.csv', 'text/csv');
+        }
+    }
+
+    exportJson(): void {
+        const matrix = this.matrix();
+        if (matrix) {
+            this.download(this.accessMatrixService.toJson(matrix), 'access-matrix.json', 'application/json');
+        }
+    }
+
+    private download(content: string, fileName: string, type: string): void {
+        const url = URL.createObjectURL(new Blob([content], { type }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+}
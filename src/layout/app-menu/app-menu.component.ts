@@ -1,14 +1,13 @@
 import { MenuItem } from 'primeng/api';
 import { MenubarModule } from 'primeng/menubar';
 import { StyleClassModule } from 'primeng/styleclass';
-import { Subscription } from 'rxjs';
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, Input, OnDestroy, OnInit } from '@angular/core';
+import { Component, computed, inject, Input, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
 import { RouterModule } from '@angular/router';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
 
-import { AuthService } from '../../services/auth.service';
 import { MenuItemWithRoles, MenuService } from '../../services/menu.service';
 import { AppMenuItem } from '../app-menu-item/app-menu-item.component';
 import { LayoutService } from '../app.layout.service';
@@ -19,48 +18,33 @@ import { LayoutService } from '../app.layout.service';
     standalone: true,
     imports: [CommonModule, RouterModule, StyleClassModule, AppMenuItem, TranslateModule, MenubarModule]
 })
-export class AppMenu implements OnInit, OnDestroy {
-    @Input() model: MenuItemWithRoles[] = [];
+export class AppMenu {
     layoutService = inject(LayoutService);
     translateService = inject(TranslateService);
     private menuFilterService = inject(MenuService);
-    private authService = inject(AuthService);
 
-    filteredMenu: MenuItemWithRoles[] = [];
-    private langChangeSubscription!: Subscription;
-    private authSubscription!: Subscription;
+    private readonly menuModel = signal<MenuItemWithRoles[]>([]);
+    private readonly langChange = toSignal(this.translateService.onLangChange);
 
-    ngOnInit(): void {
-        // Update menu when language changes
-        this.langChangeSubscription = this.translateService.onLangChange.subscribe(() => {
-            this.updateFilteredMenu();
-        });
-
-        // Update menu when authentication state changes
-        this.authSubscription = this.authService.isAuthenticated$.subscribe(() => {
-            this.updateFilteredMenu();
-        });
-
-        // Initial menu setup
-        this.updateFilteredMenu();
+    @Input()
+    set model(model: MenuItemWithRoles[]) {
+        this.menuModel.set(model ?? []);
     }
-
-    ngOnDestroy(): void {
-        this.langChangeSubscription?.unsubscribe();
-        this.authSubscription?.unsubscribe();
+    get model(): MenuItemWithRoles[] {
+        return this.menuModel();
     }
 
-    private updateFilteredMenu(): void {
-        const translatedMenu = this.getTranslatedMenu();
-        this.filteredMenu = this.menuFilterService.filterMenuItems(translatedMenu);
-    }
+    private readonly translatedMenu = computed(() => {
+        this.langChange();
+        return this.getTranslatedMenu(this.menuModel());
+    });
+
+    // Re-evaluated when the model, the language or the auth state (authentication, roles, role simulation) changes
+    readonly filteredMenu = this.menuFilterService.filterMenu(this.translatedMenu);
 
-    private getTranslatedMenu(): MenuItemWithRoles[] {
-        if (!this.model) {
-            return [];
-        }
+    private getTranslatedMenu(model: MenuItemWithRoles[]): MenuItemWithRoles[] {
         // Create a deep copy and translate
-        const translatedModel = JSON.parse(JSON.stringify(this.model));
+        const translatedModel = JSON.parse(JSON.stringify(model));
         this.translateMenuItems(translatedModel);
         return translatedModel;
     }
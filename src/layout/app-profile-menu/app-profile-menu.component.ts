@@ -1,38 +1,48 @@
-// Avoid direct compile-time dependency on keycloak-js types in the library build
-type KeycloakProfile = any;
 import { ConfirmationService, MessageService } from 'primeng/api';
 import { AvatarModule } from 'primeng/avatar';
 import { BadgeModule } from 'primeng/badge';
 import { ButtonModule } from 'primeng/button';
 import { DividerModule } from 'primeng/divider';
+import { MultiSelectModule } from 'primeng/multiselect';
 import { SelectModule } from 'primeng/select';
 import { ToggleSwitchModule } from 'primeng/toggleswitch';
 import { TooltipModule } from 'primeng/tooltip';
 import { Subscription } from 'rxjs';
+import { first } from 'rxjs/operators';
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { Component, computed, inject, OnDestroy, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
 
 import { LogFactoryService } from '../../factories/logger.factory';
+import { MockPersona } from '../../interfaces/persona.interface';
+import { InternalRole } from '../../interfaces/roles.interface';
 import { AvailableStage } from '../../interfaces/stage.interface';
 import { AuthService } from '../../services/auth.service';
 import { DeveloperService } from '../../services/developer.service';
+import { EnvironmentService } from '../../services/environment.service';
+import { PersonaService } from '../../services/persona.service';
 import { PreferencesService } from '../../services/preferences.service';
+import { RoleSimulationService } from '../../services/role-simulation.service';
+import { RolesService } from '../../services/roles.service';
 import { BrowserStorageService } from '../../services/storage.service';
 
 @Component({
     selector: 'app-profile-menu',
     standalone: true,
-    imports: [CommonModule, ButtonModule, ToggleSwitchModule, TooltipModule, TranslateModule, FormsModule, DividerModule, AvatarModule, SelectModule, BadgeModule],
+    imports: [CommonModule, ButtonModule, ToggleSwitchModule, TooltipModule, TranslateModule, FormsModule, DividerModule, AvatarModule, SelectModule, BadgeModule, MultiSelectModule],
     templateUrl: './app-profile-menu.component.html'
 })
 export class ProfileMenuComponent implements OnInit, OnDestroy {
     private authService = inject(AuthService);
     private preferencesService = inject(PreferencesService);
     private developerService = inject(DeveloperService);
+    private environmentService = inject(EnvironmentService);
+    private personaService = inject(PersonaService);
+    private roleSimulationService = inject(RoleSimulationService);
+    private rolesService = inject(RolesService);
     private storageService = inject(BrowserStorageService);
     private confirmationService = inject(ConfirmationService);
     private messageService = inject(MessageService);
@@ -40,7 +50,20 @@ export class ProfileMenuComponent implements OnInit, OnDestroy {
     private logger = inject(LogFactoryService).createLogger('ProfileMenuComponent');
     private router = inject(Router);
 
-    user: { name?: string; email?: string; initials?: string } = {};
+    readonly user = computed<{ name?: string; email?: string; initials?: string }>(() => {
+        const profile = this.authService.currentUser();
+        if (profile && profile.firstName && profile.lastName) {
+            return {
+                name: `${profile.firstName} ${profile.lastName}`,
+                email: profile.email,
+                initials: `${profile.firstName[0]}${profile.lastName[0]}`
+            };
+        }
+        return {
+            name: profile?.username,
+            email: profile?.email
+        };
+    });
     autoDarkMode: boolean = false;
 
     // Developer features
@@ -49,26 +72,20 @@ export class ProfileMenuComponent implements OnInit, OnDestroy {
     currentStage: AvailableStage | undefined;
     selectedStage: AvailableStage | undefined;
 
+    // Mock personas
+    isMockMode: boolean = false;
+    personas: MockPersona[] = [];
+    selectedPersona: MockPersona | null = null;
+
+    // "View as role" simulation
+    canSimulateRoles: boolean = false;
+    readonly roleSimulationActive = this.authService.roleSimulationActive;
+    availableRoles: InternalRole[] = [];
+    simulatedRoles: string[] = [];
+
     private preferencesSubscription!: Subscription;
-    private userProfileSubscription!: Subscription;
 
     ngOnInit(): void {
-        this.userProfileSubscription = this.authService.userProfile$.subscribe((profile: KeycloakProfile | null) => {
-            if (profile && profile.firstName && profile.lastName) {
-                this.user = {
-                    name: `${profile.firstName} ${profile.lastName}`,
-                    email: profile.email,
-                    initials: `${profile.firstName[0]}${profile.lastName[0]}`
-                };
-            } else {
-                this.user = {
-                    name: 'Max Muster',
-                    email: 'max.muster@suva.ch',
-                    initials: 'M'
-                };
-            }
-        });
-
         this.preferencesSubscription = this.preferencesService.preferences$.subscribe((prefs) => {
             this.autoDarkMode = prefs.autoDarkMode ?? false;
         });
@@ -80,6 +97,23 @@ export class ProfileMenuComponent implements OnInit, OnDestroy {
             this.currentStage = this.developerService.getCurrentStage();
             this.selectedStage = this.currentStage;
         }
+
+        // Initialize persona picker
+        this.isMockMode = this.environmentService.isMock();
+        if (this.isMockMode) {
+            this.personas = this.personaService.getPersonas();
+            this.selectedPersona = this.personaService.getActivePersona();
+        }
+
+        // Initialize role simulation
+        this.canSimulateRoles = this.roleSimulationService.canSimulate(this.authService.getActualUserRoles());
+        if (this.canSimulateRoles) {
+            this.simulatedRoles = this.roleSimulationService.getSimulatedRoles() ?? this.authService.getActualUserRoles();
+            this.rolesService
+                .getAvailableInternalRoles()
+                .pipe(first())
+                .subscribe((roles) => (this.availableRoles = roles));
+        }
     }
 
     onAutoDarkModeChange(event: { checked: boolean }): void {
@@ -107,15 +141,39 @@ export class ProfileMenuComponent implements OnInit, OnDestroy {
         if (this.preferencesSubscription) {
             this.preferencesSubscription.unsubscribe();
         }
-        if (this.userProfileSubscription) {
-            this.userProfileSubscription.unsubscribe();
-        }
     }
 
     logout() {
         this.authService.logout();
     }
 
+    /**
+     * Act as the selected mock persona
+     */
+    switchPersona(): void {
+        if (!this.selectedPersona || this.selectedPersona.id === this.personaService.getActivePersona()?.id) {
+            return;
+        }
+        this.personaService.selectPersona(this.selectedPersona.id);
+        // Reload so that menu, guards and cached data are evaluated for the new persona
+        window.location.reload();
+    }
+
+    /**
+     * View the application with the selected roles only
+     */
+    startRoleSimulation(): void {
+        this.roleSimulationService.start(this.simulatedRoles);
+    }
+
+    /**
+     * Return to the actual roles
+     */
+    stopRoleSimulation(): void {
+        this.roleSimulationService.stop();
+        this.simulatedRoles = this.authService.getActualUserRoles();
+    }
+
     /**
      * Switch to the selected environment stage
      */
@@ -0,0 +1,30 @@
+import { ButtonModule } from 'primeng/button';
+
+import { CommonModule } from '@angular/common';
+import { Component, computed, inject } from '@angular/core';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuthService } from '../../services/auth.service';
+import { RoleSimulationService } from '../../services/role-simulation.service';
+
+/**
+ * Bar shown while a "view as role" simulation is active.
+ * Lists the simulated roles and lets the user return to the actual roles.
+ * Included in AppLayout; add it to your root template if you do not use AppLayout.
+ */
+@Component({
+    selector: 'app-role-simulation-indicator',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, TranslateModule],
+    templateUrl: './app-role-simulation-indicator.component.html'
+})
+export class RoleSimulationIndicatorComponent {
+    private authService = inject(AuthService);
+    private roleSimulationService = inject(RoleSimulationService);
+
+    readonly simulatedRoles = computed(() => (this.authService.roleSimulationActive() ? this.authService.internalRoles() : null));
+
+    stop(): void {
+        this.roleSimulationService.stop();
+    }
+}
@@ -0,0 +1,35 @@
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { map } from 'rxjs/operators';
+
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { IdleService } from '../../services/idle.service';
+
+/**
+ * Dialog shown shortly before the session ends due to inactivity.
+ * Displays a countdown and lets the user extend the session or log out.
+ * Included in AppLayout; add it to your root template if you do not use AppLayout.
+ */
+@Component({
+    selector: 'app-session-timeout-dialog',
+    standalone: true,
+    imports: [CommonModule, DialogModule, ButtonModule, TranslateModule],
+    templateUrl: './app-session-timeout-dialog.component.html'
+})
+export class SessionTimeoutDialogComponent {
+    private idleService = inject(IdleService);
+
+    visible$ = this.idleService.state$.pipe(map((state) => state === 'warning'));
+    remainingSeconds$ = this.idleService.remainingSeconds$;
+
+    extendSession(): void {
+        this.idleService.extendSession();
+    }
+
+    logout(): void {
+        this.idleService.logoutNow();
+    }
+}
@@ -9,6 +9,8 @@ import { AppFooter } from './app-footer/app-footer.component';
 import { AppTopbar } from './app-header/app-header.component';
 import { AppMenuActions } from './app-menu-actions/app-menu-actions.component';
 import { AppMenu } from './app-menu/app-menu.component';
+import { RoleSimulationIndicatorComponent } from './app-role-simulation-indicator/app-role-simulation-indicator.component';
+import { SessionTimeoutDialogComponent } from './app-session-timeout-dialog/app-session-timeout-dialog.component';
 import { LayoutService } from './app.layout.service';
 
 /**
@@ -27,7 +29,7 @@ import { LayoutService } from './app.layout.service';
 @Component({
     selector: 'app-layout',
     standalone: true,
-    imports: [NgClass, NgIf, AppTopbar, RouterModule, AppFooter, AppMenu, AppMenuActions],
+    imports: [NgClass, NgIf, AppTopbar, RouterModule, AppFooter, AppMenu, AppMenuActions, SessionTimeoutDialogComponent, RoleSimulationIndicatorComponent],
     template: `<div
         class="layout-wrapper"
         [ngClass]="{
@@ -72,6 +74,8 @@ import { LayoutService } from './app.layout.service';
             <app-footer></app-footer>
         </div>
         <div class="layout-mask animate-fadein"></div>
+        <app-session-timeout-dialog />
+        <app-role-simulation-indicator />
     </div> `
 })
 export class AppLayout implements OnDestroy {
@@ -6,6 +6,10 @@ import { Component, inject, OnInit } from '@angular/core';
 import { ActivatedRoute, RouterModule } from '@angular/router';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
 
+import { AccessDecision } from '../../interfaces/access-decision.interface';
+import { AccessDecisionService } from '../../services/access-decision.service';
+import { ReturnUrlService } from '../../services/return-url.service';
+
 @Component({
     selector: 'app-access-denied',
     standalone: true,
@@ -23,7 +27,19 @@ import { TranslateModule, TranslateService } from '@ngx-translate/core';
                     {{ accessMessage }}
                 </p>
 
-                <div *ngIf="technicalDetails" class="mb-8 p-4 bg-surface-100 dark:bg-surface-800 rounded-lg text-left">
+                <p *ngIf="decisionExplanation" class="text-surface-700 dark:text-surface-300 mb-6">
+                    {{ decisionExplanation }}
+                </p>
+
+                <div *ngIf="decisionDetails" class="mb-8 p-4 bg-surface-100 dark:bg-surface-800 rounded-lg text-left">
+                    <div class="flex items-center justify-between mb-2">
+                        <p class="text-sm font-medium text-surface-700 dark:text-surface-300 m-0"><i class="pi pi-info-circle mr-2"></i>{{ 'status.accessDenied.details' | translate }}</p>
+                        <p-button [icon]="copied ? 'pi pi-check' : 'pi pi-copy'" size="small" [text]="true" (onClick)="copyDecisionDetails()" />
+                    </div>
+                    <pre class="text-xs text-surface-600 dark:text-surface-400 whitespace-pre-wrap break-words m-0">{{ decisionDetails }}</pre>
+                </div>
+
+                <div *ngIf="technicalDetails && !decisionDetails" class="mb-8 p-4 bg-surface-100 dark:bg-surface-800 rounded-lg text-left">
                     <p class="text-sm font-medium text-surface-700 dark:text-surface-300 mb-2"><i class="pi pi-info-circle mr-2"></i>{{ 'status.accessDenied.details' | translate }}</p>
                     <code class="text-xs text-surface-600 dark:text-surface-400 block break-words">{{ technicalDetails }}</code>
                 </div>
@@ -39,10 +55,16 @@ import { TranslateModule, TranslateService } from '@ngx-translate/core';
 export class AccessDenied implements OnInit {
     private route = inject(ActivatedRoute);
     private translate = inject(TranslateService);
+    private returnUrlService = inject(ReturnUrlService);
+    private accessDecisionService = inject(AccessDecisionService);
 
     accessTitle = '';
     accessMessage = '';
     technicalDetails = '';
+    decisionExplanation = '';
+    decisionDetails = '';
+    copied = false;
+    private returnUrl: string | null = null;
 
     ngOnInit() {
         // Set default translations
@@ -59,6 +81,10 @@ export class AccessDenied implements OnInit {
                 this.accessTitle = decodeURIComponent(params['title']);
             }
 
+            if (params['returnUrl']) {
+                this.returnUrl = this.returnUrlService.toRouterUrl(params['returnUrl']);
+            }
+
             if (params['details']) {
                 this.technicalDetails = decodeURIComponent(params['details']);
             }
@@ -67,9 +93,50 @@ export class AccessDenied implements OnInit {
             if (params['cause']) {
                 this.handleSpecificCause(params['cause']);
             }
+
+            // Explain the guard decision (see AccessDecisionService)
+            const decision = params['decision'] !== undefined ? this.accessDecisionService.getDecision(params['decision']) : undefined;
+            if (decision) {
+                this.decisionExplanation = this.explainDecision(decision);
+                this.decisionDetails = JSON.stringify(decision, null, 2);
+            }
         });
     }
 
+    /**
+     * User-friendly explanation of a decision, translated with 'status.accessDenied.decision.<reason>' (or '.<rule>' for decisions without reason)
+     * and the parameters route, policy, required, missing, excluded and permissions; unknown reasons use 'status.accessDenied.decision.default'
+     */
+    private explainDecision(decision: AccessDecision): string {
+        const presentRoles = decision.presentRoles;
+        const requiredRoles = decision.requiredRoles ?? [];
+        const params = {
+            route: decision.route,
+            policy: decision.policy ?? '',
+            required: requiredRoles.join(', '),
+            missing: requiredRoles.filter((role) => !presentRoles.includes(role)).join(', '),
+            excluded: requiredRoles.filter((role) => presentRoles.includes(role)).join(', '),
+            permissions: (decision.permissions ?? []).map((permission) => `${permission.op}:${permission.area}`).join(', ')
+        };
+
+        // The route mapping check denies with the same reason as a missing route data role
+        const reason = decision.reason === 'access_denied_insufficient_permissions' ? 'no-required-role' : (decision.reason ?? decision.rule);
+        const key = `status.accessDenied.decision.${reason}`;
+        const translated = this.translate.instant(key, params);
+        return translated !== key ? translated : this.translate.instant('status.accessDenied.decision.default', params);
+    }
+
+    copyDecisionDetails(): void {
+        // The clipboard API is only available in secure contexts
+        if (!navigator.clipboard) {
+            return;
+        }
+        navigator.clipboard
+            .writeText(this.decisionDetails)
+            .then(() => (this.copied = true))
+            .catch(() => (this.copied = false));
+    }
+
     private handleSpecificCause(cause: string) {
         const causeKey = `status.accessDenied.causes.${cause}`;
 
@@ -95,6 +162,12 @@ export class AccessDenied implements OnInit {
     }
 
     retryAccess() {
-        window.location.reload();
+        // Retry the originally requested page if known, otherwise reload the status page
+        const returnUrl = this.returnUrl ?? this.returnUrlService.peek();
+        if (returnUrl) {
+            window.location.assign(this.returnUrlService.toBrowserUrl(returnUrl));
+        } else {
+            window.location.reload();
+        }
     }
 }
@@ -6,6 +6,8 @@ import { Component, inject, OnInit } from '@angular/core';
 import { ActivatedRoute, RouterModule } from '@angular/router';
 import { TranslateModule, TranslateService } from '@ngx-translate/core';
 
+import { ReturnUrlService } from '../../services/return-url.service';
+
 @Component({
     selector: 'app-error',
     imports: [CommonModule, ButtonModule, RippleModule, RouterModule, TranslateModule],
@@ -39,10 +41,12 @@ import { TranslateModule, TranslateService } from '@ngx-translate/core';
 export class Error implements OnInit {
     private route = inject(ActivatedRoute);
     private translate = inject(TranslateService);
+    private returnUrlService = inject(ReturnUrlService);
 
     errorTitle = '';
     errorMessage = '';
     technicalDetails = '';
+    private returnUrl: string | null = null;
 
     ngOnInit() {
         // Set default translations
@@ -59,6 +63,10 @@ export class Error implements OnInit {
                 this.errorTitle = decodeURIComponent(params['title']);
             }
 
+            if (params['returnUrl']) {
+                this.returnUrl = this.returnUrlService.toRouterUrl(params['returnUrl']);
+            }
+
             if (params['details']) {
                 this.technicalDetails = decodeURIComponent(params['details']);
             }
@@ -89,6 +97,12 @@ export class Error implements OnInit {
     }
 
     reloadPage() {
-        window.location.reload();
+        // Retry the originally requested page if known, otherwise reload the status page
+        const returnUrl = this.returnUrl ?? this.returnUrlService.peek();
+        if (returnUrl) {
+            window.location.assign(this.returnUrlService.toBrowserUrl(returnUrl));
+        } else {
+            window.location.reload();
+        }
     }
 }
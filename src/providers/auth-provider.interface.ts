@@ -0,0 +1,87 @@
+import { Observable } from 'rxjs';
+
+import { AuthLoginOptions, AuthProviderConfig, AuthProviderEvent, AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+
+/**
+ * Interface for the authentication backend used by the core AuthService.
+ * This allows applications to authenticate against Keycloak, a plain OIDC provider,
+ * an internal SSO gateway or a local stub while reusing the core guards, interceptors and layout.
+ *
+ * The core library ships the following implementations:
+ * - KeycloakAuthProvider (default)
+ * - OidcAuthProvider (authorization code flow with PKCE)
+ * - FakeAuthProvider (in-memory, for tests and local development)
+ */
+export interface AuthProvider {
+    /**
+     * Identifier of the provider (e.g. 'keycloak', 'oidc', 'fake')
+     */
+    readonly id: string;
+
+    /**
+     * Stream of authentication events (ready, auth success/error, refresh, logout, token expiry)
+     */
+    readonly events$: Observable<AuthProviderEvent>;
+
+    /**
+     * Check whether the runtime configuration contains everything the provider needs.
+     *
+     * @returns boolean - True if init() can be called with this configuration
+     */
+    isConfigured(config: AuthProviderConfig): boolean;
+
+    /**
+     * Initialize the provider (restore session, handle login callbacks, trigger login if required).
+     *
+     * @returns Promise<boolean> - True if the user is authenticated after initialization
+     */
+    init(config: AuthProviderConfig): Promise<boolean>;
+
+    isAuthenticated(): boolean;
+
+    login(options?: AuthLoginOptions): Promise<void>;
+
+    logout(redirectUri?: string): Promise<void>;
+
+    /**
+     * Discard the local session without contacting the auth server (e.g. after a logout in another tab).
+     * Must emit an 'authLogout' event if a session was active.
+     */
+    clearSession(): void;
+
+    /**
+     * Get the current access token without refreshing it
+     */
+    getToken(): string | undefined;
+
+    /**
+     * Refresh the token if it expires within the given number of seconds.
+     *
+     * @returns Promise<boolean> - True if the token was refreshed
+     */
+    updateToken(minValidity: number): Promise<boolean>;
+
+    getParsedToken(): AuthTokenClaims | undefined;
+
+    getParsedIdToken(): AuthTokenClaims | undefined;
+
+    getParsedRefreshToken(): AuthTokenClaims | undefined;
+
+    loadUserProfile(): Promise<AuthUserProfile | null>;
+
+    /**
+     * Get the realm (global) roles of the authenticated user
+     */
+    getRealmRoles(): string[];
+
+    /**
+     * Get the resource roles of the authenticated user for a client.
+     * Defaults to the configured client.
+     */
+    getClientRoles(clientId?: string): string[];
+
+    /**
+     * Check whether a request targets the auth server itself (no bearer token must be attached)
+     */
+    isAuthServerRequest(url: string): boolean;
+}
@@ -0,0 +1,187 @@
+import { Observable, Subject } from 'rxjs';
+
+import { inject } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AuthLoginOptions, AuthProviderConfig, AuthProviderEvent, AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+import { createUnsignedJwt } from '../utils/jwt.utils';
+import { AuthProvider } from './auth-provider.interface';
+
+/**
+ * Options for the in-memory fake provider
+ */
+export interface FakeAuthProviderOptions {
+    /** Whether the user is logged in after init() (default: true) */
+    authenticated?: boolean;
+    /** Profile of the fake user */
+    profile?: AuthUserProfile;
+    /** Realm roles of the fake user */
+    realmRoles?: string[];
+    /** Resource roles of the fake user per client id; roles for the configured client can also be given as array */
+    clientRoles?: string[] | Record<string, string[]>;
+    /** Additional token claims */
+    claims?: AuthTokenClaims;
+    /** Lifetime of the issued fake tokens in seconds (default: 3600) */
+    tokenLifetimeSeconds?: number;
+}
+
+const DEFAULT_FAKE_PROFILE: AuthUserProfile = {
+    id: 'fake-user',
+    username: 'max.muster',
+    email: 'max.muster@example.com',
+    firstName: 'Max',
+    lastName: 'Muster',
+    emailVerified: true
+};
+
+/**
+ * In-memory auth provider without any server roundtrip.
+ * Issues unsigned tokens for a configurable fake user; intended for unit tests and local development.
+ *
+ * @example
+ * ```typescript
+ * import { AUTH_PROVIDER, FakeAuthProvider } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: AUTH_PROVIDER, useFactory: () => new FakeAuthProvider({ realmRoles: ['clerk'] }) }
+ *   ]
+ * };
+ * ```
+ */
+export class FakeAuthProvider implements AuthProvider {
+    readonly id = 'fake';
+
+    private logger: Logger = inject(LogFactoryService).createLogger('FakeAuthProvider');
+    private config?: AuthProviderConfig;
+    private authenticated = false;
+    private token?: string;
+    private claims?: AuthTokenClaims;
+
+    private readonly eventsSource = new Subject<AuthProviderEvent>();
+    readonly events$: Observable<AuthProviderEvent> = this.eventsSource.asObservable();
+
+    constructor(private options: FakeAuthProviderOptions = {}) {}
+
+    isConfigured(_config: AuthProviderConfig): boolean {
+        return true;
+    }
+
+    async init(config: AuthProviderConfig): Promise<boolean> {
+        this.config = config;
+        if (this.options.authenticated ?? true) {
+            this.issueToken();
+        }
+        this.eventsSource.next({ type: 'ready', authenticated: this.authenticated });
+        return this.authenticated;
+    }
+
+    isAuthenticated(): boolean {
+        return this.authenticated;
+    }
+
+    async login(options?: AuthLoginOptions): Promise<void> {
+        this.logger.debug('Fake login', options);
+        // A (step-up) login with acr_values yields the first requested authentication context
+        this.issueToken(undefined, options?.acrValues?.split(' ')[0]);
+        this.eventsSource.next({ type: 'authSuccess' });
+    }
+
+    async logout(_redirectUri?: string): Promise<void> {
+        this.logger.debug('Fake logout');
+        this.clearSession();
+    }
+
+    clearSession(): void {
+        if (!this.authenticated) {
+            return;
+        }
+        this.authenticated = false;
+        this.token = undefined;
+        this.claims = undefined;
+        this.eventsSource.next({ type: 'authLogout' });
+    }
+
+    getToken(): string | undefined {
+        return this.token;
+    }
+
+    async updateToken(minValidity: number): Promise<boolean> {
+        if (!this.authenticated || !this.claims?.exp) {
+            return false;
+        }
+        if (minValidity >= 0 && this.claims.exp - minValidity > Math.floor(Date.now() / 1000)) {
+            return false;
+        }
+        this.issueToken(this.claims.auth_time, this.claims.acr);
+        this.eventsSource.next({ type: 'authRefreshSuccess' });
+        return true;
+    }
+
+    getParsedToken(): AuthTokenClaims | undefined {
+        return this.claims;
+    }
+
+    getParsedIdToken(): AuthTokenClaims | undefined {
+        return this.claims;
+    }
+
+    getParsedRefreshToken(): AuthTokenClaims | undefined {
+        return undefined;
+    }
+
+    async loadUserProfile(): Promise<AuthUserProfile | null> {
+        return this.authenticated ? { ...DEFAULT_FAKE_PROFILE, ...this.options.profile } : null;
+    }
+
+    getRealmRoles(): string[] {
+        return this.claims?.realm_access?.roles ?? [];
+    }
+
+    getClientRoles(clientId?: string): string[] {
+        const targetClientId = clientId ?? this.config?.clientId;
+        if (!targetClientId) {
+            return [];
+        }
+        return this.claims?.resource_access?.[targetClientId]?.roles ?? [];
+    }
+
+    isAuthServerRequest(_url: string): boolean {
+        return false;
+    }
+
+    /**
+     * Issue a new fake token for the configured user
+     */
+    private issueToken(authTime?: number, acr?: string): void {
+        const now = Math.floor(Date.now() / 1000);
+        const profile = { ...DEFAULT_FAKE_PROFILE, ...this.options.profile };
+        const clientRoles = this.options.clientRoles ?? [];
+        const resourceAccess: Record<string, { roles: string[] }> = {};
+        if (Array.isArray(clientRoles)) {
+            if (this.config?.clientId) {
+                resourceAccess[this.config.clientId] = { roles: clientRoles };
+            }
+        } else {
+            Object.entries(clientRoles).forEach(([clientId, roles]) => (resourceAccess[clientId] = { roles }));
+        }
+
+        this.claims = {
+            sub: profile.id,
+            iat: now,
+            exp: now + (this.options.tokenLifetimeSeconds ?? 3600),
+            auth_time: authTime ?? now,
+            email: profile.email,
+            name: `${profile.firstName ?? ''} ${profile.lastName ?? ''}`.trim(),
+            given_name: profile.firstName,
+            family_name: profile.lastName,
+            preferred_username: profile.username,
+            realm_access: { roles: this.options.realmRoles ?? [] },
+            resource_access: resourceAccess,
+            ...this.options.claims,
+            ...(acr ? { acr } : {})
+        };
+        this.token = createUnsignedJwt(this.claims);
+        this.authenticated = true;
+    }
+}
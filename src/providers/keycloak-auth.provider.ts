@@ -0,0 +1,135 @@
+// Avoid static import of 'keycloak-js' to prevent compile-time resolution issues in library builds
+type KeycloakConfig = any;
+type KeycloakInitOptions = any;
+import { Observable, Subject } from 'rxjs';
+
+import { inject } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AuthError, AuthLoginOptions, AuthProviderConfig, AuthProviderEvent, AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+import { AuthProvider } from './auth-provider.interface';
+
+/**
+ * Auth provider based on the Keycloak JS adapter.
+ * This is the default provider of the AUTH_PROVIDER token.
+ */
+export class KeycloakAuthProvider implements AuthProvider {
+    readonly id = 'keycloak';
+
+    private logger: Logger = inject(LogFactoryService).createLogger('KeycloakAuthProvider');
+    // Using 'any' to avoid requiring keycloak-js types at compile-time in the library
+    private keycloakInstance?: any;
+    private config?: AuthProviderConfig;
+
+    private readonly eventsSource = new Subject<AuthProviderEvent>();
+    readonly events$: Observable<AuthProviderEvent> = this.eventsSource.asObservable();
+
+    isConfigured(config: AuthProviderConfig): boolean {
+        return !!config.url && !!config.realm && !!config.clientId;
+    }
+
+    async init(config: AuthProviderConfig): Promise<boolean> {
+        this.config = config;
+        const keycloakConfig: KeycloakConfig = {
+            url: config.url,
+            realm: config.realm,
+            clientId: config.clientId
+        };
+        this.logger.debug(`Creating Keycloak instance for realm: ${config.realm}`);
+        // Dynamically import keycloak-js at runtime to avoid build-time resolution issues
+        const { default: KeycloakCtor } = await import('keycloak-js');
+        this.keycloakInstance = new KeycloakCtor(keycloakConfig);
+
+        // Forward the Keycloak callbacks as provider events
+        this.keycloakInstance.onReady = (authenticated: boolean) => this.eventsSource.next({ type: 'ready', authenticated: !!authenticated });
+        this.keycloakInstance.onAuthSuccess = () => this.eventsSource.next({ type: 'authSuccess' });
+        this.keycloakInstance.onAuthError = (errorData: unknown) => {
+            const error: AuthError = errorData && typeof errorData === 'object' && 'error' in errorData ? (errorData as AuthError) : { error: 'auth_error' };
+            this.eventsSource.next({ type: 'authError', error });
+        };
+        this.keycloakInstance.onAuthRefreshSuccess = () => this.eventsSource.next({ type: 'authRefreshSuccess' });
+        this.keycloakInstance.onAuthRefreshError = () => this.eventsSource.next({ type: 'authRefreshError' });
+        this.keycloakInstance.onAuthLogout = () => this.eventsSource.next({ type: 'authLogout' });
+        this.keycloakInstance.onTokenExpired = () => this.eventsSource.next({ type: 'tokenExpired' });
+
+        const initOptions: KeycloakInitOptions = {
+            onLoad: config.onLoad,
+            checkLoginIframe: false
+        };
+        if (config.silentCheckSsoRedirectUri) {
+            initOptions.silentCheckSsoRedirectUri = config.silentCheckSsoRedirectUri;
+        }
+
+        return !!(await this.keycloakInstance.init(initOptions));
+    }
+
+    isAuthenticated(): boolean {
+        return !!this.keycloakInstance?.authenticated;
+    }
+
+    async login(options?: AuthLoginOptions): Promise<void> {
+        if (!this.keycloakInstance) {
+            throw new Error('Keycloak is not initialized');
+        }
+        await this.keycloakInstance.login(options);
+    }
+
+    async logout(redirectUri?: string): Promise<void> {
+        if (!this.keycloakInstance) {
+            throw new Error('Keycloak is not initialized');
+        }
+        await this.keycloakInstance.logout({ redirectUri });
+    }
+
+    clearSession(): void {
+        // clearToken() triggers onAuthLogout if a token was present
+        this.keycloakInstance?.clearToken();
+    }
+
+    getToken(): string | undefined {
+        return this.keycloakInstance?.token;
+    }
+
+    updateToken(minValidity: number): Promise<boolean> {
+        if (!this.keycloakInstance) {
+            return Promise.resolve(false);
+        }
+        return this.keycloakInstance.updateToken(minValidity);
+    }
+
+    getParsedToken(): AuthTokenClaims | undefined {
+        return this.keycloakInstance?.tokenParsed;
+    }
+
+    getParsedIdToken(): AuthTokenClaims | undefined {
+        return this.keycloakInstance?.idTokenParsed;
+    }
+
+    getParsedRefreshToken(): AuthTokenClaims | undefined {
+        return this.keycloakInstance?.refreshTokenParsed;
+    }
+
+    async loadUserProfile(): Promise<AuthUserProfile | null> {
+        if (!this.keycloakInstance?.authenticated) {
+            return null;
+        }
+        return this.keycloakInstance.loadUserProfile();
+    }
+
+    getRealmRoles(): string[] {
+        return this.keycloakInstance?.tokenParsed?.realm_access?.roles ?? [];
+    }
+
+    getClientRoles(clientId?: string): string[] {
+        const resourceAccess = this.keycloakInstance?.resourceAccess;
+        const targetClientId = clientId ?? this.config?.clientId;
+        if (!resourceAccess || !targetClientId) {
+            return [];
+        }
+        return resourceAccess[targetClientId]?.roles ?? [];
+    }
+
+    isAuthServerRequest(url: string): boolean {
+        return !!this.config?.url && url.startsWith(this.config.url);
+    }
+}
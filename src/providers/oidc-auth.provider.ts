@@ -0,0 +1,429 @@
+import { Observable, Subject } from 'rxjs';
+
+import { inject } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AuthLoginOptions, AuthProviderConfig, AuthProviderEvent, AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+import { ReturnUrlService } from '../services/return-url.service';
+import { BrowserStorageService } from '../services/storage.service';
+import { base64UrlEncode, decodeJwtPayload } from '../utils/jwt.utils';
+import { AuthProvider } from './auth-provider.interface';
+
+/**
+ * Options for the generic OIDC provider.
+ * Everything not set here is derived from the AuthProviderConfig (i.e. the runtime environment).
+ */
+export interface OidcAuthProviderOptions {
+    /** Issuer URL; defaults to `{url}/realms/{realm}` if a realm is configured, otherwise `{url}` */
+    issuer?: string;
+    /** Requested scopes (default: 'openid profile email') */
+    scope?: string;
+    /** Redirect URI registered at the provider (default: origin + path of the current page) */
+    redirectUri?: string;
+    /** Redirect URI after logout (default: origin of the current page) */
+    postLogoutRedirectUri?: string;
+}
+
+/**
+ * Subset of the OpenID Connect discovery document used by the provider
+ */
+interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    end_session_endpoint?: string;
+}
+
+interface OidcTokenResponse {
+    access_token: string;
+    id_token?: string;
+    refresh_token?: string;
+    expires_in?: number;
+}
+
+interface OidcStoredTokens {
+    accessToken: string;
+    idToken?: string;
+    refreshToken?: string;
+    expiresAt: number; // Milliseconds since epoch
+}
+
+/**
+ * Rejected request to the token endpoint
+ */
+class TokenRequestError extends Error {
+    constructor(readonly status: number) {
+        super(`Token request failed: HTTP ${status}`);
+    }
+}
+
+interface OidcPendingLogin {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectUri: string;
+    returnUrl: string;
+}
+
+/**
+ * Auth provider implementing the OpenID Connect authorization code flow with PKCE.
+ * Tokens are kept in session storage so a page reload does not require a new login.
+ *
+ * @example
+ * ```typescript
+ * import { AUTH_PROVIDER, OidcAuthProvider } from '@frj/ng-core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     { provide: AUTH_PROVIDER, useFactory: () => new OidcAuthProvider({ scope: 'openid profile email offline_access' }) }
+ *   ]
+ * };
+ * ```
+ */
+export class OidcAuthProvider implements AuthProvider {
+    readonly id = 'oidc';
+
+    private logger: Logger = inject(LogFactoryService).createLogger('OidcAuthProvider');
+    private storageService = inject(BrowserStorageService);
+    private returnUrlService = inject(ReturnUrlService);
+
+    private readonly STORAGE_KEY_TOKENS = 'oidc_tokens';
+    private readonly STORAGE_KEY_PENDING_LOGIN = 'oidc_pending_login';
+
+    private config?: AuthProviderConfig;
+    private discovery?: OidcDiscoveryDocument;
+    private tokens: OidcStoredTokens | null = null;
+    private expiryTimer?: number;
+
+    private readonly eventsSource = new Subject<AuthProviderEvent>();
+    readonly events$: Observable<AuthProviderEvent> = this.eventsSource.asObservable();
+
+    constructor(private options: OidcAuthProviderOptions = {}) {}
+
+    isConfigured(config: AuthProviderConfig): boolean {
+        return (!!config.url || !!this.options.issuer) && !!config.clientId;
+    }
+
+    async init(config: AuthProviderConfig): Promise<boolean> {
+        this.config = config;
+        this.discovery = await this.loadDiscoveryDocument(this.getIssuer());
+
+        const params = new URLSearchParams(window.location.search);
+        if (params.has('code') && params.has('state')) {
+            await this.handleLoginCallback(params);
+        } else if (params.has('error') && params.has('state')) {
+            this.storageService.removeSession(this.STORAGE_KEY_PENDING_LOGIN);
+            this.eventsSource.next({ type: 'authError', error: { error: params.get('error')!, error_description: params.get('error_description') ?? undefined } });
+        } else {
+            this.tokens = this.storageService.getSession<OidcStoredTokens>(this.STORAGE_KEY_TOKENS);
+            if (this.tokens && this.tokens.expiresAt <= Date.now()) {
+                // Try to resume the session with the refresh token
+                await this.updateToken(-1).catch(() => this.clearTokens());
+            }
+        }
+
+        const authenticated = this.isAuthenticated();
+        this.eventsSource.next({ type: 'ready', authenticated });
+        if (authenticated) {
+            this.scheduleExpiryTimer();
+        } else if (config.onLoad === 'login-required') {
+            await this.login();
+        }
+        return authenticated;
+    }
+
+    isAuthenticated(): boolean {
+        return !!this.tokens && this.tokens.expiresAt > Date.now();
+    }
+
+    async login(options?: AuthLoginOptions): Promise<void> {
+        const discovery = this.requireDiscovery();
+        const codeVerifier = this.randomString(64);
+        const pendingLogin: OidcPendingLogin = {
+            state: this.randomString(32),
+            nonce: this.randomString(32),
+            codeVerifier,
+            redirectUri: this.options.redirectUri ?? window.location.origin + window.location.pathname,
+            // Foreign origins would make history.replaceState throw after the tokens were stored
+            returnUrl: this.returnUrlService.toSafeUrl(options?.redirectUri ?? window.location.href) ?? window.location.pathname
+        };
+        this.storageService.setSession(this.STORAGE_KEY_PENDING_LOGIN, pendingLogin);
+
+        const params = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.config!.clientId,
+            redirect_uri: pendingLogin.redirectUri,
+            scope: this.options.scope ?? 'openid profile email',
+            state: pendingLogin.state,
+            nonce: pendingLogin.nonce,
+            code_challenge: await this.createCodeChallenge(codeVerifier),
+            code_challenge_method: this.config!.pkceMethod
+        });
+        if (options?.prompt) {
+            params.set('prompt', options.prompt);
+        }
+        if (options?.maxAge !== undefined) {
+            params.set('max_age', String(options.maxAge));
+        }
+        if (options?.acrValues) {
+            params.set('acr_values', options.acrValues);
+        }
+        if (options?.loginHint) {
+            params.set('login_hint', options.loginHint);
+        }
+        if (options?.idpHint) {
+            params.set('kc_idp_hint', options.idpHint);
+        }
+        if (options?.locale) {
+            params.set('ui_locales', options.locale);
+        }
+
+        this.logger.debug('Redirecting to authorization endpoint');
+        window.location.assign(`${discovery.authorization_endpoint}?${params.toString()}`);
+    }
+
+    async logout(redirectUri?: string): Promise<void> {
+        const idToken = this.tokens?.idToken;
+        this.clearTokens();
+        this.eventsSource.next({ type: 'authLogout' });
+
+        const postLogoutRedirectUri = redirectUri ?? this.options.postLogoutRedirectUri ?? window.location.origin;
+        const endSessionEndpoint = this.discovery?.end_session_endpoint;
+        if (!endSessionEndpoint) {
+            window.location.assign(postLogoutRedirectUri);
+            return;
+        }
+
+        const params = new URLSearchParams({ client_id: this.config!.clientId, post_logout_redirect_uri: postLogoutRedirectUri });
+        if (idToken) {
+            params.set('id_token_hint', idToken);
+        }
+        window.location.assign(`${endSessionEndpoint}?${params.toString()}`);
+    }
+
+    clearSession(): void {
+        if (this.tokens) {
+            this.clearTokens();
+            this.eventsSource.next({ type: 'authLogout' });
+        }
+    }
+
+    getToken(): string | undefined {
+        return this.tokens?.accessToken;
+    }
+
+    async updateToken(minValidity: number): Promise<boolean> {
+        if (!this.tokens) {
+            return false;
+        }
+        if (minValidity >= 0 && this.tokens.expiresAt - minValidity * 1000 > Date.now()) {
+            return false;
+        }
+        if (!this.tokens.refreshToken) {
+            this.eventsSource.next({ type: 'authRefreshError', definitive: true });
+            throw new Error('No refresh token available');
+        }
+
+        try {
+            const response = await this.requestToken({
+                grant_type: 'refresh_token',
+                refresh_token: this.tokens.refreshToken,
+                client_id: this.config!.clientId
+            });
+            this.storeTokens(response, this.tokens.refreshToken);
+            this.scheduleExpiryTimer();
+            this.eventsSource.next({ type: 'authRefreshSuccess' });
+            return true;
+        } catch (error) {
+            // Client errors (invalid_grant) reject the refresh token; network and server errors may pass
+            const definitive = error instanceof TokenRequestError && error.status >= 400 && error.status < 500;
+            this.eventsSource.next({ type: 'authRefreshError', definitive });
+            throw error;
+        }
+    }
+
+    getParsedToken(): AuthTokenClaims | undefined {
+        // Opaque access tokens cannot be decoded, fall back to the ID token claims
+        return decodeJwtPayload(this.tokens?.accessToken) ?? this.getParsedIdToken();
+    }
+
+    getParsedIdToken(): AuthTokenClaims | undefined {
+        return decodeJwtPayload(this.tokens?.idToken);
+    }
+
+    getParsedRefreshToken(): AuthTokenClaims | undefined {
+        return decodeJwtPayload(this.tokens?.refreshToken);
+    }
+
+    async loadUserProfile(): Promise<AuthUserProfile | null> {
+        if (!this.isAuthenticated()) {
+            return null;
+        }
+
+        let claims: AuthTokenClaims | undefined = this.getParsedIdToken();
+        const userinfoEndpoint = this.discovery?.userinfo_endpoint;
+        if (userinfoEndpoint) {
+            const response = await fetch(userinfoEndpoint, { headers: { Authorization: `Bearer ${this.tokens!.accessToken}` } });
+            if (response.ok) {
+                claims = { ...claims, ...(await response.json()) };
+            } else {
+                this.logger.warn(`Userinfo request failed: HTTP ${response.status}`);
+            }
+        }
+        if (!claims) {
+            return null;
+        }
+
+        return {
+            id: claims.sub,
+            username: claims.preferred_username,
+            email: claims.email,
+            firstName: claims.given_name,
+            lastName: claims.family_name,
+            emailVerified: claims['email_verified'] as boolean | undefined
+        };
+    }
+
+    getRealmRoles(): string[] {
+        return this.getParsedToken()?.realm_access?.roles ?? [];
+    }
+
+    getClientRoles(clientId?: string): string[] {
+        const targetClientId = clientId ?? this.config?.clientId;
+        if (!targetClientId) {
+            return [];
+        }
+        return this.getParsedToken()?.resource_access?.[targetClientId]?.roles ?? [];
+    }
+
+    isAuthServerRequest(url: string): boolean {
+        const issuer = this.discovery?.issuer ?? (this.config ? this.getIssuer() : undefined);
+        return (!!issuer && url.startsWith(issuer)) || (!!this.discovery && url.startsWith(this.discovery.token_endpoint));
+    }
+
+    /**
+     * Exchange the authorization code of a login callback for tokens
+     */
+    private async handleLoginCallback(params: URLSearchParams): Promise<void> {
+        const pendingLogin = this.storageService.getSession<OidcPendingLogin>(this.STORAGE_KEY_PENDING_LOGIN);
+        this.storageService.removeSession(this.STORAGE_KEY_PENDING_LOGIN);
+
+        if (!pendingLogin || pendingLogin.state !== params.get('state')) {
+            this.logger.error('Login callback with unknown state, ignoring it');
+            this.eventsSource.next({ type: 'authError', error: { error: 'invalid_state', error_description: 'Login callback state does not match' } });
+            return;
+        }
+
+        try {
+            const response = await this.requestToken({
+                grant_type: 'authorization_code',
+                code: params.get('code')!,
+                redirect_uri: pendingLogin.redirectUri,
+                client_id: this.config!.clientId,
+                code_verifier: pendingLogin.codeVerifier
+            });
+            // A nonce was sent with the authorization request, so the ID token must contain it
+            const idClaims = decodeJwtPayload(response.id_token);
+            if (!idClaims?.['nonce'] || idClaims['nonce'] !== pendingLogin.nonce) {
+                throw new Error('ID token nonce is missing or does not match');
+            }
+            this.storeTokens(response);
+            this.eventsSource.next({ type: 'authSuccess' });
+        } catch (error) {
+            this.logger.error('Failed to exchange authorization code:', error);
+            this.eventsSource.next({ type: 'authError', error: { error: 'code_exchange_failed', error_description: String(error) } });
+        }
+
+        // Remove code and state from the address bar (validated again, the session storage could have been modified)
+        const returnUrl = this.returnUrlService.toSafeUrl(pendingLogin.returnUrl) ?? this.returnUrlService.toSafeUrl(pendingLogin.redirectUri) ?? window.location.pathname;
+        window.history.replaceState(window.history.state, '', returnUrl);
+    }
+
+    private async requestToken(body: Record<string, string>): Promise<OidcTokenResponse> {
+        const response = await fetch(this.requireDiscovery().token_endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams(body).toString()
+        });
+        if (!response.ok) {
+            throw new TokenRequestError(response.status);
+        }
+        return response.json();
+    }
+
+    private storeTokens(response: OidcTokenResponse, previousRefreshToken?: string): void {
+        // Prefer expires_in, then the exp claim of a JWT access token, then a conservative default of 5 minutes
+        const exp = decodeJwtPayload(response.access_token)?.exp;
+        const expiresAt = response.expires_in !== undefined ? Date.now() + response.expires_in * 1000 : exp ? exp * 1000 : Date.now() + 300 * 1000;
+        this.tokens = {
+            accessToken: response.access_token,
+            idToken: response.id_token ?? this.tokens?.idToken,
+            refreshToken: response.refresh_token ?? previousRefreshToken,
+            expiresAt
+        };
+        this.storageService.setSession(this.STORAGE_KEY_TOKENS, this.tokens);
+    }
+
+    private clearTokens(): void {
+        this.tokens = null;
+        this.storageService.removeSession(this.STORAGE_KEY_TOKENS);
+        if (this.expiryTimer) {
+            window.clearTimeout(this.expiryTimer);
+            this.expiryTimer = undefined;
+        }
+    }
+
+    /**
+     * Emit 'tokenExpired' once the access token expires (like the Keycloak adapter does)
+     */
+    private scheduleExpiryTimer(): void {
+        if (this.expiryTimer) {
+            window.clearTimeout(this.expiryTimer);
+        }
+        if (!this.tokens) {
+            return;
+        }
+        this.expiryTimer = window.setTimeout(
+            () => {
+                this.expiryTimer = undefined;
+                this.eventsSource.next({ type: 'tokenExpired' });
+            },
+            Math.max(this.tokens.expiresAt - Date.now(), 0)
+        );
+    }
+
+    private async loadDiscoveryDocument(issuer: string): Promise<OidcDiscoveryDocument> {
+        const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        if (!response.ok) {
+            throw new Error(`Failed to load OIDC discovery document: HTTP ${response.status}`);
+        }
+        return response.json();
+    }
+
+    private requireDiscovery(): OidcDiscoveryDocument {
+        if (!this.discovery || !this.config) {
+            throw new Error('OIDC provider is not initialized');
+        }
+        return this.discovery;
+    }
+
+    private getIssuer(): string {
+        if (this.options.issuer) {
+            return this.options.issuer;
+        }
+        const url = this.config!.url.replace(/\/$/, '');
+        return this.config!.realm ? `${url}/realms/${this.config!.realm}` : url;
+    }
+
+    private async createCodeChallenge(codeVerifier: string): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+        return base64UrlEncode(new Uint8Array(digest));
+    }
+
+    private randomString(length: number): string {
+        const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+        const values = crypto.getRandomValues(new Uint8Array(length));
+        return Array.from(values, (value) => charset[value % charset.length]).join('');
+    }
+}
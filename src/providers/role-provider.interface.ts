@@ -1,6 +1,6 @@
 import { Observable } from 'rxjs';
 
-import { InternalRole } from '../interfaces/roles.interface';
+import { EntitlementItem, InternalRole } from '../interfaces/roles.interface';
 
 /**
  * Interface for providing processed role mapping data to the core RolesService.
@@ -20,6 +20,14 @@ export interface RoleDataProvider {
      * @returns Observable<InternalRole[]> - Processed role mapping data
      */
     fetchRoleMappings(): Observable<InternalRole[]>;
+
+    /**
+     * Fetch the entitlements (operations per area and Keycloak role) used by the PermissionService.
+     * Optional; without it no operation is permitted.
+     *
+     * @returns Observable<EntitlementItem[]> - Entitlements of the application
+     */
+    fetchEntitlements?(): Observable<EntitlementItem[]>;
 }
 
 /**
@@ -41,4 +49,12 @@ export class DefaultRoleDataProvider implements RoleDataProvider {
             subscriber.complete();
         });
     }
+
+    fetchEntitlements(): Observable<EntitlementItem[]> {
+        // No entitlements by default - applications should override this
+        return new Observable((subscriber) => {
+            subscriber.next([]);
+            subscriber.complete();
+        });
+    }
 }
@@ -0,0 +1,46 @@
+import { computed, Injectable, signal } from '@angular/core';
+
+import { AccessDecision } from '../interfaces/access-decision.interface';
+
+/**
+ * Decision log of the route guards.
+ * Keeps the latest access decisions (granted and denied) for the access-denied page and the developer tools.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AccessDecisionService {
+    private readonly MAX_ENTRIES = 100;
+
+    private readonly entries = signal<AccessDecision[]>([]);
+    private idCounter = 0;
+
+    /**
+     * Recorded decisions, newest first
+     */
+    readonly decisions = this.entries.asReadonly();
+
+    /**
+     * The most recent denial, null if access was never denied
+     */
+    readonly lastDenied = computed(() => this.entries().find((decision) => !decision.granted) ?? null);
+
+    record(decision: Omit<AccessDecision, 'id' | 'timestamp'>): AccessDecision {
+        const entry: AccessDecision = {
+            ...decision,
+            // Timestamped: the counter restarts on reload, the decision id of the access-denied URL must not be reused
+            id: `${Date.now().toString(36)}-${this.idCounter++}`,
+            timestamp: new Date()
+        };
+        this.entries.update((entries) => [entry, ...entries].slice(0, this.MAX_ENTRIES));
+        return entry;
+    }
+
+    getDecision(id: string): AccessDecision | undefined {
+        return this.entries().find((decision) => decision.id === id);
+    }
+
+    clear(): void {
+        this.entries.set([]);
+    }
+}
@@ -0,0 +1,194 @@
+import { Observable } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+
+import { inject, Injectable } from '@angular/core';
+import { Route, Router } from '@angular/router';
+
+import { MENU_CONFIG } from '../config/tokens';
+import { decideRoleAccess, getRoleGuards, getRoleRouteData, getRouteDataPolicies, RoleGuardOptions, RoleRouteData } from '../guards/role.guard';
+import { RouteRoleMapping } from '../interfaces/access-decision.interface';
+import { InternalRole } from '../interfaces/roles.interface';
+import { Stage } from '../interfaces/stage.interface';
+import { formatPolicy, PolicyContext } from '../utils/policy.utils';
+import { EnvironmentService } from './environment.service';
+import { MenuItemWithRoles, MenuService } from './menu.service';
+import { PermissionService } from './permission.service';
+import { PolicyService } from './policy.service';
+import { RolesService } from './roles.service';
+
+/**
+ * Access of each internal role to the routes and menu items
+ */
+export interface AccessMatrix {
+    generatedAt: Date;
+    roles: string[];
+    entries: AccessMatrixEntry[];
+}
+
+export interface AccessMatrixEntry {
+    kind: 'route' | 'menu';
+    path: string; // Route path, or the router link of a menu item
+    label?: string; // Label of a menu item
+    rule: string; // The evaluated rules in policy syntax
+    routeMapping?: RouteRoleMapping; // ROUTE_ROLE_MAPPINGS entry matching the route
+    lazy?: boolean; // Lazy loaded route whose children are not part of the report
+    unguarded?: boolean; // Route without role guard (roleGuard() or RoleGuard); its role rules are not enforced, access is inherited from the parent
+    access: Record<string, boolean>; // Internal role -> access
+}
+
+/**
+ * Per-role evaluation context
+ */
+interface RoleAccessContext {
+    role: string;
+    internalRoles: string[]; // The role and all roles it inherits
+    keycloakRoles: string[]; // Keycloak roles mapped to these internal roles
+    can: PolicyContext['can'];
+}
+
+/**
+ * Service computing the role/route access matrix ("which role can reach which page") for security reviews.
+ * Walks the router config and the menu configuration and evaluates them per internal role with the decisions of RoleGuard and MenuService.
+ * Route data and ROUTE_ROLE_MAPPINGS only apply to routes guarded by roleGuard() or RoleGuard (canActivate, canMatch, or canActivateChild
+ * of a parent). Stage and feature predicates are evaluated for the current environment.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AccessMatrixService {
+    private router = inject(Router);
+    private menuConfig = inject(MENU_CONFIG);
+    private rolesService = inject(RolesService);
+    private menuService = inject(MenuService);
+    private permissionService = inject(PermissionService);
+    private policyService = inject(PolicyService);
+    private environmentService = inject(EnvironmentService);
+
+    /**
+     * Compute the access matrix for all available internal roles, once the entitlements are loaded (permission rules depend on them)
+     */
+    buildMatrix(): Observable<AccessMatrix> {
+        return this.permissionService.whenLoaded().pipe(
+            switchMap(() => this.rolesService.getAvailableInternalRoles()),
+            map((internalRoles) => {
+                const contexts = internalRoles.map((internalRole) => this.createRoleContext(internalRole.name, internalRoles));
+                return {
+                    generatedAt: new Date(),
+                    roles: contexts.map((context) => context.role),
+                    entries: [...this.collectRouteEntries(this.router.config, '', contexts, null, []), ...this.collectMenuEntries(this.menuConfig, contexts, null)]
+                };
+            })
+        );
+    }
+
+    /**
+     * Export the matrix as CSV (one row per route or menu item, one column per role)
+     */
+    toCsv(matrix: AccessMatrix): string {
+        const header = ['kind', 'path', 'label', 'rule', 'routeMapping', 'roleGuard', ...matrix.roles];
+        const rows = matrix.entries.map((entry) => [
+            entry.kind,
+            entry.path,
+            entry.label ?? '',
+            entry.rule,
+            entry.routeMapping?.pattern ?? '',
+            entry.kind === 'route' ? (entry.unguarded ? 'no' : 'yes') : '',
+            ...matrix.roles.map((role) => (entry.access[role] ? 'yes' : 'no'))
+        ]);
+        return [header, ...rows].map((row) => row.map((value) => this.toCsvValue(value)).join(',')).join('\r\n');
+    }
+
+    /**
+     * Export the matrix as JSON
+     */
+    toJson(matrix: AccessMatrix): string {
+        return JSON.stringify(matrix, null, 2);
+    }
+
+    private createRoleContext(role: string, internalRoles: InternalRole[]): RoleAccessContext {
+        const effectiveRoles = this.rolesService.expandInheritedRoles([role]);
+        const keycloakRoles = internalRoles.filter((internalRole) => this.rolesService.includesInternalRole(effectiveRoles, internalRole.name)).flatMap((internalRole) => internalRole.keycloakRoles);
+        const granted = this.permissionService.getGrantedOperations(keycloakRoles);
+        return {
+            role,
+            internalRoles: effectiveRoles,
+            keycloakRoles,
+            can: (op, area) => granted.get(area)?.has(op) ?? false
+        };
+    }
+
+    /**
+     * Walk the router config; a route is only reachable if its parent routes are
+     *
+     * @param childGuards Role guards of the canActivateChild of the parent routes, applying to all descendants
+     */
+    private collectRouteEntries(routes: Route[], parentPath: string, contexts: RoleAccessContext[], parentAccess: Record<string, boolean> | null, childGuards: RoleGuardOptions[]): AccessMatrixEntry[] {
+        return routes.flatMap((route) => {
+            if (route.redirectTo !== undefined || route.path === '**') {
+                return [];
+            }
+
+            const path = [parentPath, route.path].filter((part) => !!part).join('/');
+            const routePath = '/' + path;
+            const guards = [...childGuards, ...getRoleGuards([...(route.canMatch ?? []), ...(route.canActivate ?? [])])];
+            const guardRequirements = guards.map((options) => getRoleRouteData(route.data ?? {}, options));
+            const routeMapping = this.rolesService.getRouteRoleMapping(routePath) ?? undefined;
+            const access = Object.fromEntries(contexts.map((context) => [context.role, (parentAccess?.[context.role] ?? true) && guardRequirements.every((requirements) => this.canReachRoute(requirements, routePath, context))]));
+
+            const entry: AccessMatrixEntry = {
+                kind: 'route',
+                path: routePath,
+                rule: [...new Set(guardRequirements.map((requirements) => this.describeRouteRules(requirements, routeMapping)))].filter((rule) => !!rule).join('; '),
+                routeMapping,
+                lazy: !!route.loadChildren || undefined,
+                unguarded: guards.length === 0 || undefined,
+                access
+            };
+            return [entry, ...this.collectRouteEntries(route.children ?? [], path, contexts, access, [...childGuards, ...getRoleGuards(route.canActivateChild ?? [])])];
+        });
+    }
+
+    /**
+     * Decision of RoleGuard for a user with the role, as during a role simulation (the role mappings are checked against the internal roles)
+     */
+    private canReachRoute(requirements: RoleRouteData, routePath: string, context: RoleAccessContext): boolean {
+        const subject = { internalRoles: context.internalRoles, mappedRoles: context.internalRoles, simulated: true, can: context.can };
+        return decideRoleAccess(requirements, routePath, subject, this.environmentService.stage !== Stage.MOCK, this.rolesService, this.policyService).granted;
+    }
+
+    private describeRouteRules(requirements: RoleRouteData, routeMapping: RouteRoleMapping | undefined): string {
+        const rules = getRouteDataPolicies(requirements).map(({ policy }) => {
+            const expression = this.policyService.compile(policy);
+            return expression ? formatPolicy(expression) : `invalid: ${String(policy)}`;
+        });
+        if (routeMapping && routeMapping.roles.length > 0) {
+            rules.push(`${routeMapping.pattern}: ${routeMapping.roles.join(' OR ')}`);
+        }
+        rules.push(...(requirements.permissions ?? []).map((permission) => `perm:${permission.op}:${permission.area}`));
+        return rules.join('; ');
+    }
+
+    /**
+     * Walk the menu tree; a menu item is only visible if its parent items are
+     */
+    private collectMenuEntries(items: MenuItemWithRoles[], contexts: RoleAccessContext[], parentAccess: Record<string, boolean> | null): AccessMatrixEntry[] {
+        return items.flatMap((item) => {
+            const access = Object.fromEntries(contexts.map((context) => [context.role, (parentAccess?.[context.role] ?? true) && this.menuService.hasAccessToMenuItem(item, context.internalRoles, context.can)]));
+            const roleRule = item.roles ? this.policyService.compile(item.roles) : null;
+            const rules = [roleRule ? formatPolicy(roleRule) : '', ...(item.permissions ?? []).map((permission) => `perm:${permission.op}:${permission.area}`)];
+
+            const entry: AccessMatrixEntry = {
+                kind: 'menu',
+                path: Array.isArray(item.routerLink) ? item.routerLink.join('/') : (item.routerLink ?? item.url ?? ''),
+                label: item.label,
+                rule: rules.filter((rule) => !!rule).join('; '),
+                access
+            };
+            return [entry, ...this.collectMenuEntries(item.items ?? [], contexts, access)];
+        });
+    }
+
+    private toCsvValue(value: string): string {
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+}
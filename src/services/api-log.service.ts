@@ -1,17 +1,21 @@
 import { BehaviorSubject, Observable } from 'rxjs';
 
-import { Injectable } from '@angular/core';
+import { inject, Injectable } from '@angular/core';
 
 import { ApiLogEntry } from '../interfaces/api.interface';
+import { Har } from '../interfaces/har.interface';
+import { createHar } from '../utils/har.utils';
+import { EnvironmentService } from './environment.service';
 
 /**
  * (Developer) Service responsible for logging API calls and responses.
- * It provides methods to add, update, and retrieve log entries.
+ * It provides methods to add, update, and retrieve log entries, and exports them as HAR file for the replay in the MOCK stage (see HarReplayService).
  */
 @Injectable({
     providedIn: 'root'
 })
 export class ApiLogService {
+    private environmentService = inject(EnvironmentService);
     private logsSubject = new BehaviorSubject<ApiLogEntry[]>([]);
     logs$ = this.logsSubject.asObservable();
     private logs: ApiLogEntry[] = [];
@@ -44,4 +48,20 @@ export class ApiLogService {
         this.logs = [];
         this.logsSubject.next([]);
     }
+
+    /**
+     * Convert the completed log entries to a HAR 1.2 file
+     */
+    toHar(): Har {
+        const har = createHar(this.logs, { name: 'ApiLogService', version: this.environmentService.getAppVersion() });
+        har.log.comment = `Recorded on stage ${this.environmentService.stage}`;
+        return har;
+    }
+
+    /**
+     * Export the completed log entries as HAR 1.2 JSON (e.g. for download as .har file)
+     */
+    exportHar(): string {
+        return JSON.stringify(this.toHar(), null, 2);
+    }
 }
@@ -1,22 +1,54 @@
-// Avoid static import of 'keycloak-js' to prevent compile-time resolution issues in library builds
-type KeycloakConfig = any;
-type KeycloakError = any;
-type KeycloakInitOptions = any;
-type KeycloakLoginOptions = any;
-type KeycloakProfile = any;
-type KeycloakTokenParsed = any;
-import { BehaviorSubject, Observable, ReplaySubject } from 'rxjs';
+import { BehaviorSubject, Observable, ReplaySubject, Subject } from 'rxjs';
+import { filter, pairwise } from 'rxjs/operators';
 
-import { inject, Injectable, Injector } from '@angular/core';
+import { computed, inject, Injectable, Injector, runInInjectionContext, Signal, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
 
+import { AUTH_PROVIDER, ROLE_SOURCE_CONFIG } from '../config/tokens';
 import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { checkActiveRouteRoles } from '../guards/role.guard';
+import { AuthError, AuthLoginOptions, AuthProviderConfig, AuthProviderEvent, AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+import { MockPersona } from '../interfaces/persona.interface';
+import { RoleChange } from '../interfaces/roles.interface';
+import { SessionSyncMessage } from '../interfaces/session-sync.interface';
 import { Stage } from '../interfaces/stage.interface';
 import { EnvironmentService } from './environment.service';
+import { PersonaService } from './persona.service';
+import { ReturnUrlService } from './return-url.service';
+import { RoleSimulationService } from './role-simulation.service';
 import { RolesService } from './roles.service';
+import { SessionSyncService } from './session-sync.service';
+import { TokenRefreshService } from './token-refresh.service';
 
 /**
- * Service to handle authentication and authorization using Keycloak.
- * Utilizes Keycloak JS adapter for authentication flows.
+ * Internal authentication state, updated on every provider event and backing the public signals
+ */
+interface AuthState {
+    authenticated: boolean;
+    user: AuthUserProfile | null;
+    claims: AuthTokenClaims | null;
+    keycloakRoles: string[];
+    // Internal roles granted directly (mock personas)
+    directRoles: string[];
+    simulatedRoles: string[] | null;
+    // Incremented when the role mappings are (re)loaded
+    mappingsVersion: number;
+}
+
+const INITIAL_AUTH_STATE: AuthState = {
+    authenticated: false,
+    user: null,
+    claims: null,
+    keycloakRoles: [],
+    directRoles: [],
+    simulatedRoles: null,
+    mappingsVersion: 0
+};
+
+/**
+ * Service to handle authentication and authorization.
+ * Delegates the authentication flows to the provider registered via the AUTH_PROVIDER token (Keycloak by default).
  * Supports user role management and access control.
  */
 @Injectable({
@@ -25,46 +57,89 @@ import { RolesService } from './roles.service';
 export class AuthService {
     private environmentService = inject(EnvironmentService);
     private injector = inject(Injector);
+    private authProvider = inject(AUTH_PROVIDER);
+    private sessionSync = inject(SessionSyncService);
+    private tokenRefresh = inject(TokenRefreshService);
+    private personaService = inject(PersonaService);
+    private returnUrlService = inject(ReturnUrlService);
+    private roleSourceConfig = inject(ROLE_SOURCE_CONFIG);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private _rolesService?: any; // Lazy-loaded to avoid circular dependency
-    // Using 'any' to avoid requiring keycloak-js types at compile-time in the library
-    private keycloakInstance?: any;
-    private userProfile: KeycloakProfile | null = null;
-    private useKeycloak: boolean;
+    private _roleSimulationService?: RoleSimulationService; // Lazy-loaded to avoid circular dependency
+    private providerActive: boolean;
     private logger: Logger;
-    private cachedUserRoles: string[] | null = null;
+    private readonly state = signal<AuthState>(INITIAL_AUTH_STATE);
+    private roleChangesSubscribed = false;
+
+    // Requests wait for a refresh if the token is valid for less than this many seconds
+    private readonly MIN_TOKEN_VALIDITY_SECONDS = 5;
 
-    // Subjects for Keycloak events
+    // Subjects for auth provider events
     private readonly authSuccessSource = new ReplaySubject<void>(1);
-    private readonly authErrorSource = new ReplaySubject<KeycloakError>(1);
+    private readonly authErrorSource = new ReplaySubject<AuthError>(1);
     private readonly authLogoutSource = new ReplaySubject<void>(1);
     private readonly tokenExpiredSource = new ReplaySubject<void>(1);
     private readonly isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
     private readonly initializedSource = new BehaviorSubject<boolean>(false);
-    private readonly userProfileSubject = new BehaviorSubject<KeycloakProfile | null>(null);
+    private readonly userProfileSubject = new BehaviorSubject<AuthUserProfile | null>(null);
+    private readonly roleChangesSource = new Subject<RoleChange>();
     private readonly accessTokenSubject = new BehaviorSubject<string | null>(null);
 
-    // Observables for Keycloak events
+    // Observables for auth provider events
     public readonly onAuthSuccess$: Observable<void> = this.authSuccessSource.asObservable();
-    public readonly onAuthError$: Observable<KeycloakError> = this.authErrorSource.asObservable();
+    public readonly onAuthError$: Observable<AuthError> = this.authErrorSource.asObservable();
     public readonly onAuthLogout$: Observable<void> = this.authLogoutSource.asObservable();
     public readonly onTokenExpired$: Observable<void> = this.tokenExpiredSource.asObservable();
     public readonly isAuthenticated$: Observable<boolean> = this.isAuthenticatedSubject.asObservable();
     public readonly isInitialized$: Observable<boolean> = this.initializedSource.asObservable();
     public readonly userProfile$ = this.userProfileSubject.asObservable();
     public readonly accessToken$ = this.accessTokenSubject.asObservable();
+    /** Emits when the effective internal roles change (token refresh with other roles, role mapping reload, role simulation) */
+    public readonly roleChanges$: Observable<RoleChange> = this.roleChangesSource.asObservable();
+
+    // Reactive auth state
+    /** Profile of the current user, null if not authenticated */
+    public readonly currentUser: Signal<AuthUserProfile | null> = computed(() => this.state().user);
+    /** Whether the user is authenticated (true once a persona is selected in mock mode) */
+    public readonly isAuthenticated: Signal<boolean> = computed(() => this.state().authenticated);
+    /** Keycloak roles of the user, combined from the configured role sources */
+    public readonly keycloakRoles: Signal<string[]> = computed(() => this.state().keycloakRoles);
+    /** Claims of the access token */
+    public readonly claims: Signal<AuthTokenClaims | null> = computed(() => this.state().claims);
+    /** Expiry of the access token, null if unknown */
+    public readonly tokenExpiresAt: Signal<Date | null> = computed(() => {
+        const exp = this.state().claims?.exp;
+        return exp ? new Date(exp * 1000) : null;
+    });
+    /** Internal roles mapped from the Keycloak roles (including inherited roles), ignoring any role simulation */
+    public readonly actualInternalRoles: Signal<string[]> = computed(() => {
+        // Also re-evaluated when the role mappings are reloaded (mappingsVersion)
+        const { authenticated, keycloakRoles, directRoles } = this.state();
+        if (!authenticated) {
+            return directRoles;
+        }
+        const mappedRoles: string[] = this.getRolesService().mapKeycloakRolesToInternalRoles(keycloakRoles);
+        return this.getRolesService().expandInheritedRoles([...mappedRoles, ...directRoles]);
+    });
+    /** Whether the user currently acts with simulated roles ("view as role") */
+    public readonly roleSimulationActive: Signal<boolean> = computed(() => this.state().simulatedRoles !== null && this.getRoleSimulationService().canSimulate(this.actualInternalRoles()));
+    /** Effective internal roles of the user including inherited roles (the simulated roles while a role simulation is active) */
+    public readonly internalRoles: Signal<string[]> = computed(() => (this.roleSimulationActive() ? this.getRolesService().expandInheritedRoles(this.state().simulatedRoles ?? []) : this.actualInternalRoles()));
 
     private logFactory = inject(LogFactoryService);
 
     constructor() {
         this.logger = this.logFactory.createLogger('AuthService');
         // Note: Mock mode detection moved to init() to use updated environment
-        this.useKeycloak = false; // Will be determined in init()
+        this.providerActive = false; // Will be determined in init()
+        this.authProvider.events$.subscribe((event) => this.handleProviderEvent(event));
+        this.sessionSync.messages$.subscribe((message) => this.handleSessionSyncMessage(message));
+        this.personaService.activePersona$.subscribe((persona) => this.applyPersona(persona));
     }
 
     /**
      * Lazy-load RolesService to avoid circular dependency
-     * AuthService -> RolesService -> HttpClient -> AuthInterceptor -> AuthService
+     * AuthService -> RolesService -> AuthService (RolesService injects AuthService directly for the auth events and the user's 'sub')
      */
     private getRolesService() {
         if (!this._rolesService) {
@@ -73,330 +148,532 @@ export class AuthService {
         return this._rolesService;
     }
 
-    async init(_config?: KeycloakConfig): Promise<boolean> {
+    /**
+     * Lazy-load RoleSimulationService to avoid circular dependency
+     * AuthService -> RoleSimulationService -> DeveloperService -> HttpClient -> AuthInterceptor -> AuthService
+     */
+    private getRoleSimulationService(): RoleSimulationService {
+        if (!this._roleSimulationService) {
+            this._roleSimulationService = this.injector.get(RoleSimulationService);
+        }
+        return this._roleSimulationService;
+    }
+
+    // The optional parameter is kept for backward compatibility; the configuration is read from the EnvironmentService
+    async init(_config?: unknown): Promise<boolean> {
         this.isAuthenticatedSubject.next(false);
         this.initializedSource.next(false);
+        this.subscribeRoleChanges();
 
         // Determine mode after runtime config is loaded
         const mockModeActive = this.environmentService.stage === Stage.MOCK;
-        const keycloakUrl = this.environmentService.keycloakUrl;
-        const keycloakRealm = this.environmentService.keycloakRealm;
-        const keycloakClientId = this.environmentService.keycloakClientId;
-        const keycloakConfigPresent = !!keycloakUrl && !!keycloakRealm && !!keycloakClientId;
-
-        this.logger.debug(`AuthService initializing - Mock: ${mockModeActive}, Keycloak: ${keycloakConfigPresent}`);
-        this.useKeycloak = !mockModeActive && keycloakConfigPresent;
-
-        // Initialize Keycloak if configured
-        if (this.useKeycloak) {
-            this.logger.debug('Initializing Keycloak using runtime configuration...');
-            if (!keycloakUrl || !keycloakRealm || !keycloakClientId) {
-                this.logger.error('Keycloak initialization skipped: Keycloak configuration is missing in environment.');
-                this.useKeycloak = false;
-                this.initializedSource.next(true);
-                return false;
+        const providerConfig = this.buildProviderConfig();
+        const providerConfigPresent = this.authProvider.isConfigured(providerConfig);
+
+        this.logger.debug(`AuthService initializing - Mock: ${mockModeActive}, Provider '${this.authProvider.id}' configured: ${providerConfigPresent}`);
+        this.providerActive = !mockModeActive && providerConfigPresent;
+
+        if (!this.providerActive) {
+            this.logger.error(`Auth provider '${this.authProvider.id}' will not be initialized.`);
+            if (mockModeActive) {
+                // Simulate the user with the selected mock persona
+                await this.personaService.loadPersonas();
             }
-            const keycloakConfig: KeycloakConfig = {
-                url: keycloakUrl,
-                realm: keycloakRealm,
-                clientId: keycloakClientId
-            };
-            this.logger.debug(`Creating Keycloak instance for realm: ${keycloakRealm}`);
-            // Dynamically import keycloak-js at runtime to avoid build-time resolution issues
-            const { default: KeycloakCtor } = await import('keycloak-js');
-            this.keycloakInstance = new KeycloakCtor(keycloakConfig);
-        } else {
-            this.logger.error('Keycloak will not be initialized.');
             this.initializedSource.next(true);
             return false;
         }
 
-        // Event setup for Keycloak. Ensure keycloakInstance is defined before setting up handlers
-        if (this.keycloakInstance) {
-            this.keycloakInstance.onReady = (authenticated: boolean) => {
-                this.isAuthenticatedSubject.next(!!authenticated);
-                if (authenticated) {
-                    this.loadUserProfile().catch((err) => this.logger.error('Error loading user profile:', err));
-                }
-            };
-
-            this.keycloakInstance.onAuthSuccess = () => {
-                this.logger.debug('Successfully authenticated with Keycloak');
-                this.clearUserRolesCache(); // Clear cache on new authentication
-                this.authSuccessSource.next();
-                this.isAuthenticatedSubject.next(true);
-                this.accessTokenSubject.next(this.keycloakInstance!.token ?? null);
-                this.loadUserProfile().catch((err) => this.logger.error('Error loading user profile:', err));
-            };
-
-            this.keycloakInstance.onAuthError = (errorData: unknown) => {
-                this.logger.error('Failed to authenticate with Keycloak:', errorData);
-                if (errorData && typeof errorData === 'object' && 'error' in errorData) {
-                    this.authErrorSource.next(errorData as KeycloakError);
-                }
-                this.isAuthenticatedSubject.next(false);
-            };
-
-            this.keycloakInstance.onAuthRefreshSuccess = () => {
-                this.logger.debug('Successfully refreshed token with Keycloak');
-                this.clearUserRolesCache(); // Clear cache on token refresh (roles might have changed)
-                this.accessTokenSubject.next(this.keycloakInstance!.token ?? null);
-            };
-
-            this.keycloakInstance.onAuthRefreshError = () => {
-                this.logger.error('Keycloak onAuthRefreshError');
-                // Could trigger a re-login or logout
-                this.authErrorSource.next({ error: 'refresh_error', error_description: 'Failed to refresh token' });
-            };
-
-            this.keycloakInstance.onAuthLogout = () => {
-                this.logger.debug('Logging out from Keycloak');
-                this.clearUserRolesCache(); // Clear cache on logout
-                this.userProfile = null;
-                this.userProfileSubject.next(null);
-                this.accessTokenSubject.next(null);
-                this.authLogoutSource.next();
-                this.isAuthenticatedSubject.next(false);
-            };
-
-            this.keycloakInstance.onTokenExpired = () => {
-                this.logger.debug('Token expired from Keycloak. Attempting to update token...');
-                this.tokenExpiredSource.next();
-                this.updateToken(30).catch((err: unknown) => {
-                    this.logger.error('Failed to update token after expiry, logging out:', err);
-                    this.logout();
-                });
-            };
-
-            const onLoadMode = (this.environmentService.keycloakOnLoad || 'login-required') as KeycloakInitOptions['onLoad'];
-            const initOptions: KeycloakInitOptions = {
-                onLoad: onLoadMode,
-                checkLoginIframe: false
-            };
-
-            // Only add silentCheckSsoRedirectUri for check-sso mode and in development
-            if (onLoadMode === 'check-sso' && this.isLocalDevelopment()) {
-                initOptions.silentCheckSsoRedirectUri = window.location.origin + '/assets/silent-check-sso.html';
+        this.logger.debug(`Initializing auth provider '${this.authProvider.id}' using runtime configuration...`);
+        // Remember the requested deep link in case the provider redirects to the login page
+        if (!this.returnUrlService.peek()) {
+            this.returnUrlService.capture();
+        }
+        try {
+            const authenticated = await this.authProvider.init(providerConfig);
+            if (authenticated) {
+                this.logger.debug('Authentication successful');
+                // Return to the originally requested URL (no-op if the provider already did on 'authSuccess')
+                this.returnUrlService.restore();
+            } else {
+                this.logger.debug('Authentication required - redirect initiated');
             }
 
-            try {
-                const authenticated = await this.keycloakInstance.init(initOptions);
-                if (authenticated) {
-                    this.logger.debug('Keycloak authentication successful');
-                } else {
-                    this.logger.debug('Keycloak authentication required - redirect initiated');
-                }
-
-                this.accessTokenSubject.next(this.keycloakInstance.token ?? null);
-                this.initializedSource.next(true);
-                return authenticated;
-            } catch (error) {
-                this.logger.error('Error during Keycloak initialization:', error);
-                this.isAuthenticatedSubject.next(false);
-                this.initializedSource.next(true);
-                return false;
-            }
-        } else {
-            // This case should ideally not be reached if logic above is correct :-)
-            this.logger.error('Oooops! KeycloakInstance is not defined before init call, this should not happen!');
+            this.accessTokenSubject.next(this.authProvider.getToken() ?? null);
+            this.syncProviderState();
+            this.tokenRefresh.start();
+            this.initializedSource.next(true);
+            return authenticated;
+        } catch (error) {
+            this.logger.error('Error during auth provider initialization:', error);
             this.isAuthenticatedSubject.next(false);
-            this.initializedSource.next(true); // Signal init completion (unexpected failure)
+            this.patchState({ authenticated: false });
+            this.initializedSource.next(true);
             return false;
         }
     }
 
-    isKeycloakActive(): boolean {
-        return this.useKeycloak;
+    /**
+     * Check whether an auth provider is configured and initialized
+     */
+    isAuthProviderActive(): boolean {
+        return this.providerActive;
     }
 
-    isAuthenticated(): boolean {
-        if (this.environmentService.stage === Stage.MOCK) {
-            return true;
-        }
-        return !!(this.keycloakInstance && this.keycloakInstance.authenticated);
+    /**
+     * @deprecated Use isAuthProviderActive() instead
+     */
+    isKeycloakActive(): boolean {
+        return this.isAuthProviderActive();
     }
 
-    login(options?: KeycloakLoginOptions): Promise<boolean> {
-        if (!this.isKeycloakActive() || !this.keycloakInstance) {
-            this.logger.warn('Login called but Keycloak is not active or not initialized.');
+    login(options?: AuthLoginOptions): Promise<boolean> {
+        if (!this.isAuthProviderActive()) {
+            this.logger.warn('Login called but auth provider is not active or not initialized.');
             return Promise.resolve(false);
         }
-        this.logger.debug('Login method called. Current authenticated state:', this.keycloakInstance.authenticated);
+        this.logger.debug('Login method called. Current authenticated state:', this.authProvider.isAuthenticated());
+        this.returnUrlService.capture(options?.redirectUri);
         return new Promise((resolve, reject) => {
-            this.keycloakInstance!.login(options)
+            this.authProvider
+                .login(options)
                 .then(() => {
                     this.logger.debug('Login promise resolved.');
-                    this.accessTokenSubject.next(this.keycloakInstance!.token ?? null);
-                    resolve(!!this.keycloakInstance?.authenticated);
+                    this.accessTokenSubject.next(this.authProvider.getToken() ?? null);
+                    resolve(this.authProvider.isAuthenticated());
                 })
                 .catch((error: unknown) => {
-                    this.logger.error('Keycloak login failed.', error);
+                    this.logger.error('Login failed.', error);
                     reject(false);
                 });
         });
     }
 
     logout(redirectUri?: string): Promise<void> {
-        if (!this.isKeycloakActive() || !this.keycloakInstance) {
-            this.logger.warn('Logout called but Keycloak is not active or not initialized.');
+        if (!this.isAuthProviderActive()) {
+            this.logger.warn('Logout called but auth provider is not active or not initialized.');
             return Promise.resolve();
         }
-        const options = redirectUri ? { redirectUri } : { redirectUri: window.location.origin };
-        this.logger.debug('Logging out with options', options);
-        return this.keycloakInstance.logout(options).catch((error: unknown) => {
-            this.logger.error('[Auth Service] Error during Keycloak logout:', error);
-            this.userProfile = null;
-            this.userProfileSubject.next(null);
-            this.accessTokenSubject.next(null);
-            this.authLogoutSource.next();
+        const targetUri = redirectUri ?? window.location.origin;
+        if (redirectUri) {
+            // Return to this page after the next login
+            this.returnUrlService.capture(redirectUri);
+        }
+        this.logger.debug('Logging out with redirect', targetUri);
+        this.sessionSync.publish('logout');
+        return this.authProvider.logout(targetUri).catch((error: unknown) => {
+            this.logger.error('[Auth Service] Error during logout:', error);
+            this.resetSession();
             this.isAuthenticatedSubject.next(false); // Ensure ready state is false even if logout promise fails
+            this.patchState({ authenticated: false });
         });
     }
 
+    /**
+     * Refresh the token if it expires within minValidity seconds.
+     * Concurrent calls share one in-flight refresh.
+     */
     public updateToken(minValidity: number): Promise<boolean> {
-        if (!this.isKeycloakActive() || !this.keycloakInstance) {
-            this.logger.warn('updateToken called but Keycloak is not active or not initialized.');
+        if (!this.isAuthProviderActive()) {
+            this.logger.warn('updateToken called but auth provider is not active or not initialized.');
             return Promise.resolve(false);
         }
-        return this.keycloakInstance.updateToken(minValidity);
+        return this.tokenRefresh.refresh(minValidity);
+    }
+
+    /**
+     * Get the current access token without waiting for a refresh
+     */
+    getCurrentToken(): string {
+        if (!this.isAuthProviderActive() || !this.authProvider.isAuthenticated()) {
+            return '';
+        }
+        return this.authProvider.getToken() || '';
+    }
+
+    /**
+     * Check whether callers have to wait for a refresh before using the token,
+     * i.e. a refresh is in flight or the token is (about to be) expired (e.g. after the page was hidden)
+     */
+    isTokenRefreshPending(): boolean {
+        if (!this.isAuthProviderActive() || !this.authProvider.isAuthenticated()) {
+            return false;
+        }
+        return this.tokenRefresh.isRefreshPending() || this.tokenRefresh.isExpiringWithin(this.MIN_TOKEN_VALIDITY_SECONDS);
     }
 
     getToken(): Promise<string> {
-        if (!this.isKeycloakActive() || !this.keycloakInstance || !this.keycloakInstance.authenticated) {
+        if (!this.isAuthProviderActive() || !this.authProvider.isAuthenticated()) {
             return Promise.resolve('');
         }
-        // Force a token update if it's about to expire
-        return this.updateToken(70)
+        // The TokenRefreshService refreshes ahead of expiry, so only wait if a refresh is actually needed
+        if (!this.isTokenRefreshPending()) {
+            return Promise.resolve(this.getCurrentToken());
+        }
+        return this.updateToken(this.MIN_TOKEN_VALIDITY_SECONDS)
             .then((refreshed: boolean) => {
                 if (refreshed) {
                     this.logger.debug('[Auth Service] Token was refreshed by getToken');
                 }
-                return this.keycloakInstance!.token || '';
+                return this.authProvider.getToken() || '';
             })
             .catch((error: unknown) => {
                 this.logger.error('[Auth Service] Error refreshing token in getToken:', error);
-                return this.keycloakInstance!.token || ''; // return current token even if refresh failed
+                return this.authProvider.getToken() || ''; // return current token even if refresh failed
             });
     }
 
+    /**
+     * Check whether a request targets the auth server itself
+     */
+    isAuthServerRequest(url: string): boolean {
+        return this.authProvider.isAuthServerRequest(url);
+    }
+
+    /**
+     * Get the Keycloak roles of the user, combined from the sources configured via ROLE_SOURCE_CONFIG
+     * (the roles of the selected persona in mock mode)
+     */
     public getRoles(): string[] {
-        if (this.keycloakInstance?.resourceAccess) {
-            const clientId = this.environmentService.keycloakClientId;
-            const resourceAccess = this.keycloakInstance.resourceAccess[clientId as string];
-            return resourceAccess?.roles || [];
+        if (this.environmentService.stage === Stage.MOCK) {
+            return this.personaService.getActivePersona()?.keycloakRoles ?? [];
         }
-        return [];
+        if (!this.providerActive) {
+            return [];
+        }
+        return this.getKeycloakRoles();
     }
 
-    public getParsedToken(): KeycloakTokenParsed | undefined {
-        return this.keycloakInstance?.tokenParsed;
+    public getParsedToken(): AuthTokenClaims | undefined {
+        if (this.environmentService.stage === Stage.MOCK) {
+            return this.getPersonaClaims();
+        }
+        return this.authProvider.getParsedToken();
     }
 
-    public getParsedIdToken(): KeycloakTokenParsed | undefined {
-        return this.keycloakInstance?.idTokenParsed;
+    public getParsedIdToken(): AuthTokenClaims | undefined {
+        if (this.environmentService.stage === Stage.MOCK) {
+            return this.getPersonaClaims();
+        }
+        return this.authProvider.getParsedIdToken();
     }
 
-    public getParsedRefreshToken(): KeycloakTokenParsed | undefined {
-        return this.keycloakInstance?.refreshTokenParsed;
+    public getParsedRefreshToken(): AuthTokenClaims | undefined {
+        return this.authProvider.getParsedRefreshToken();
     }
 
     /**
      * Returns the user's profile information.
      * @returns The user's profile or null if not authenticated.
      */
-    async loadUserProfile(): Promise<KeycloakProfile | null> {
-        if (!this.isKeycloakActive() || !this.keycloakInstance?.authenticated) {
-            this.logger.debug('Cannot load user profile, Keycloak not active or not authenticated.');
-            this.userProfile = null;
-            this.userProfileSubject.next(null);
+    async loadUserProfile(): Promise<AuthUserProfile | null> {
+        if (this.environmentService.stage === Stage.MOCK) {
+            return this.currentUser(); // Profile of the selected mock persona
+        }
+        if (!this.isAuthProviderActive() || !this.authProvider.isAuthenticated()) {
+            this.logger.debug('Cannot load user profile, auth provider not active or not authenticated.');
+            this.setUserProfile(null);
             return null;
         }
         try {
-            this.userProfile = await this.keycloakInstance.loadUserProfile();
-            this.logger.debug('User profile loaded:', this.userProfile);
-            this.userProfileSubject.next(this.userProfile);
-            return this.userProfile;
+            const profile = await this.authProvider.loadUserProfile();
+            this.logger.debug('User profile loaded:', profile);
+            this.setUserProfile(profile);
+            return profile;
         } catch (error) {
             this.logger.error('Error loading user profile:', error);
-            this.userProfile = null;
-            this.userProfileSubject.next(null);
+            this.setUserProfile(null);
             return null;
         }
     }
 
-    getUserProfile(): KeycloakProfile | null {
-        return this.userProfile;
+    getUserProfile(): AuthUserProfile | null {
+        return this.currentUser();
     }
 
     public hasRole(role: string): boolean {
-        if (this.environmentService.stage === Stage.MOCK) {
-            return true; // In mock mode, grant all roles for easy testing.
+        return this.getRolesService().includesInternalRole(this.internalRoles(), role);
+    }
+
+    /**
+     * Get the effective internal roles of the user (the simulated roles while a role simulation is active)
+     */
+    public getUserRoles(): string[] {
+        return [...this.internalRoles()];
+    }
+
+    /**
+     * Check whether the user currently acts with simulated roles ("view as role")
+     */
+    public isRoleSimulationActive(): boolean {
+        return this.roleSimulationActive();
+    }
+
+    /**
+     * Get all internal roles mapped from the user's Keycloak roles, ignoring any role simulation
+     */
+    public getActualUserRoles(): string[] {
+        return [...this.actualInternalRoles()];
+    }
+
+    /**
+     * Combine the Keycloak roles of the user from the configured sources (realm roles, client roles, token claims)
+     */
+    private getKeycloakRoles(): string[] {
+        const roles: string[] = [];
+        if (this.roleSourceConfig.realmRoles) {
+            roles.push(...this.authProvider.getRealmRoles());
         }
-        if (!this.isAuthenticated() || !this.keycloakInstance || !this.keycloakInstance.tokenParsed) {
-            return false;
+
+        const clients = this.roleSourceConfig.clients ?? [this.environmentService.keycloakClientId];
+        for (const clientId of clients) {
+            const clientRoles = this.authProvider.getClientRoles(clientId);
+            roles.push(...(this.roleSourceConfig.prefixClientRoles ? clientRoles.map((role) => `${clientId}:${role}`) : clientRoles));
         }
 
-        // Get all Keycloak roles (realm and client roles)
-        const keycloakRoles: string[] = [];
+        const claims = this.authProvider.getParsedToken();
+        for (const claim of this.roleSourceConfig.claims ?? []) {
+            roles.push(...this.getClaimRoles(claims, claim));
+        }
+        return [...new Set(roles)];
+    }
 
-        // Add realm roles
-        if (this.keycloakInstance.tokenParsed.realm_access?.roles) {
-            keycloakRoles.push(...this.keycloakInstance.tokenParsed.realm_access.roles);
+    /**
+     * Read the roles of a token claim (dot notation for nested claims); accepts string arrays and space-separated strings
+     */
+    private getClaimRoles(claims: AuthTokenClaims | undefined, claim: string): string[] {
+        const value = claim.split('.').reduce<unknown>((current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined), claims);
+        if (Array.isArray(value)) {
+            return value.filter((role): role is string => typeof role === 'string');
+        }
+        if (typeof value === 'string') {
+            return value.split(' ').filter((role) => role.length > 0);
         }
+        return [];
+    }
+
+    /**
+     * Token claims of the selected mock persona
+     */
+    private getPersonaClaims(): AuthTokenClaims | undefined {
+        const persona = this.personaService.getActivePersona();
+        return persona ? this.personaService.toTokenClaims(persona, this.environmentService.keycloakClientId) : undefined;
+    }
 
-        // Add client roles
-        const clientId = this.keycloakInstance.clientId;
-        if (clientId && this.keycloakInstance.tokenParsed.resource_access?.[clientId]?.roles) {
-            keycloakRoles.push(...this.keycloakInstance.tokenParsed.resource_access[clientId].roles);
+    /**
+     * Use the selected mock persona as the current user
+     */
+    private applyPersona(persona: MockPersona | null): void {
+        if (!persona) {
+            return;
         }
+        this.logger.debug(`Mock mode: acting as persona '${persona.id}'`);
+        this.patchState({
+            authenticated: true,
+            claims: this.getPersonaClaims() ?? null,
+            keycloakRoles: [...persona.keycloakRoles],
+            directRoles: [...(persona.internalRoles ?? [])]
+        });
+        this.setUserProfile(this.personaService.toUserProfile(persona));
+    }
 
-        // Use roles service to check if any Keycloak role maps to the requested internal role
-        return this.getRolesService().hasInternalRole(keycloakRoles, role);
+    private setUserProfile(profile: AuthUserProfile | null): void {
+        this.patchState({ user: profile });
+        this.userProfileSubject.next(profile);
+    }
+
+    private patchState(patch: Partial<AuthState>): void {
+        this.state.update((state) => ({ ...state, ...patch }));
     }
 
     /**
-     * Get all internal roles mapped from the user's Keycloak roles
+     * Take over authentication state, claims and roles from the auth provider
      */
-    public getUserRoles(): string[] {
-        // Return cached roles if available
-        if (this.cachedUserRoles !== null) {
-            return [...this.cachedUserRoles];
+    private syncProviderState(): void {
+        if (!this.providerActive) {
+            return;
         }
+        const authenticated = this.authProvider.isAuthenticated();
+        this.patchState({
+            authenticated,
+            claims: authenticated ? (this.authProvider.getParsedToken() ?? null) : null,
+            keycloakRoles: authenticated ? this.getKeycloakRoles() : []
+        });
+    }
 
-        if (this.environmentService.stage === Stage.MOCK) {
-            this.cachedUserRoles = [RolesService.ADMIN_ROLE]; // In mock mode, grant admin role
-            return [...this.cachedUserRoles];
+    /**
+     * Track role mapping reloads and role simulations, both change the internal roles,
+     * and publish changes of the internal roles (subscribed in init(), the services cannot be injected in the constructor)
+     */
+    private subscribeRoleChanges(): void {
+        if (this.roleChangesSubscribed) {
+            return;
         }
+        this.roleChangesSubscribed = true;
+        (this.getRolesService().isLoadingMappings$ as Observable<boolean>).pipe(filter((loading) => !loading)).subscribe(() => this.patchState({ mappingsVersion: this.state().mappingsVersion + 1 }));
+        this.getRoleSimulationService().simulatedRoles$.subscribe((simulatedRoles) => this.patchState({ simulatedRoles }));
+
+        toObservable(this.internalRoles, { injector: this.injector })
+            .pipe(
+                pairwise(),
+                filter(([previousRoles, roles]) => [...previousRoles].sort().join(',') !== [...roles].sort().join(','))
+            )
+            .subscribe(([previousRoles, roles]) => {
+                const change: RoleChange = {
+                    previousRoles,
+                    roles,
+                    added: roles.filter((role) => !previousRoles.includes(role)),
+                    removed: previousRoles.filter((role) => !roles.includes(role))
+                };
+                this.logger.debug('Internal roles changed:', change);
+                this.roleChangesSource.next(change);
+                // Menu and role directives follow the role signals; the current route needs its guards re-run
+                if (previousRoles.length > 0 && this.isAuthenticated()) {
+                    this.reevaluateCurrentRoute();
+                }
+            });
+    }
 
-        if (!this.isAuthenticated() || !this.keycloakInstance || !this.keycloakInstance.tokenParsed) {
-            this.cachedUserRoles = [];
-            return [];
+    /**
+     * Re-check the role guards of the active route with the new roles and redirect if access was lost (the page stays otherwise)
+     */
+    private reevaluateCurrentRoute(): void {
+        const router = this.injector.get(Router);
+        if (!router.navigated) {
+            return;
         }
+        runInInjectionContext(this.injector, () => checkActiveRouteRoles()).subscribe({
+            next: (redirect) => {
+                if (redirect) {
+                    this.logger.debug('Access to the current route was lost, redirecting to', router.serializeUrl(redirect));
+                    router.navigateByUrl(redirect).catch((error: unknown) => this.logger.error('Failed to leave the current route:', error));
+                }
+            },
+            error: (error: unknown) => this.logger.error('Failed to re-evaluate the current route:', error)
+        });
+    }
 
-        // Get all Keycloak roles (realm and client roles)
-        const keycloakRoles: string[] = [];
+    /**
+     * Reset the local session state (profile, token, authentication state)
+     */
+    private resetSession(): void {
+        this.patchState({ authenticated: false, claims: null, keycloakRoles: [] });
+        this.setUserProfile(null);
+        this.accessTokenSubject.next(null);
+        this.authLogoutSource.next();
+    }
 
-        // Add realm roles
-        if (this.keycloakInstance.tokenParsed.realm_access?.roles) {
-            keycloakRoles.push(...this.keycloakInstance.tokenParsed.realm_access.roles);
+    /**
+     * React on the events of the auth provider
+     */
+    private handleProviderEvent(event: AuthProviderEvent): void {
+        this.syncProviderState();
+        switch (event.type) {
+            case 'ready':
+                this.isAuthenticatedSubject.next(event.authenticated);
+                if (event.authenticated) {
+                    this.loadUserProfile().catch((err) => this.logger.error('Error loading user profile:', err));
+                }
+                break;
+            case 'authSuccess':
+                this.logger.debug('Successfully authenticated');
+                this.authSuccessSource.next();
+                this.returnUrlService.restore();
+                this.isAuthenticatedSubject.next(true);
+                this.accessTokenSubject.next(this.authProvider.getToken() ?? null);
+                this.loadUserProfile().catch((err) => this.logger.error('Error loading user profile:', err));
+                this.sessionSync.publish('login', { sub: this.authProvider.getParsedToken()?.sub });
+                break;
+            case 'authError':
+                this.logger.error('Failed to authenticate:', event.error);
+                this.authErrorSource.next(event.error);
+                this.isAuthenticatedSubject.next(false);
+                break;
+            case 'authRefreshSuccess':
+                this.logger.debug('Successfully refreshed token');
+                this.accessTokenSubject.next(this.authProvider.getToken() ?? null);
+                this.sessionSync.publish('tokenRefresh', { rolesFingerprint: this.getRolesFingerprint() });
+                break;
+            case 'authRefreshError':
+                this.logger.error('Token refresh failed');
+                // Could trigger a re-login or logout
+                this.authErrorSource.next({ error: 'refresh_error', error_description: 'Failed to refresh token' });
+                break;
+            case 'authLogout':
+                this.logger.debug('Logged out');
+                this.resetSession();
+                this.isAuthenticatedSubject.next(false);
+                break;
+            case 'tokenExpired':
+                this.logger.debug('Token expired. Attempting to update token...');
+                this.tokenExpiredSource.next();
+                this.updateToken(30).catch((err: unknown) => {
+                    this.logger.error('Failed to update token after expiry, logging out:', err);
+                    this.logout(window.location.href);
+                });
+                break;
         }
+    }
 
-        // Add client roles
-        const clientId = this.keycloakInstance.clientId;
-        if (clientId && this.keycloakInstance.tokenParsed.resource_access?.[clientId]?.roles) {
-            keycloakRoles.push(...this.keycloakInstance.tokenParsed.resource_access[clientId].roles);
+    /**
+     * React on session events of other tabs (logout, login, token refresh)
+     */
+    private handleSessionSyncMessage(message: SessionSyncMessage): void {
+        if (!this.providerActive) {
+            return;
+        }
+        switch (message.type) {
+            case 'logout':
+                this.logger.debug('Logout in another tab, discarding local session');
+                this.authProvider.clearSession();
+                break;
+            case 'login': {
+                const remoteSub = message.payload?.['sub'];
+                if (!this.authProvider.isAuthenticated()) {
+                    // Reload to pick up the new SSO session of the other tab
+                    this.logger.debug('Login in another tab, reloading to pick up the session');
+                    window.location.reload();
+                } else if (remoteSub && remoteSub !== this.authProvider.getParsedToken()?.sub) {
+                    this.logger.warn('Another user logged in in another tab, discarding local session');
+                    this.authProvider.clearSession();
+                    window.location.reload();
+                }
+                break;
+            }
+            case 'tokenRefresh':
+                // Only refresh if the other tab received different roles, otherwise our own token is still fine
+                if (this.authProvider.isAuthenticated() && message.payload?.['rolesFingerprint'] !== this.getRolesFingerprint()) {
+                    this.logger.debug('Roles changed in another tab, refreshing token');
+                    this.updateToken(-1).catch((err: unknown) => this.logger.error('Failed to refresh token after remote role change:', err));
+                }
+                break;
         }
+    }
 
-        // Map to internal roles and cache
-        this.cachedUserRoles = this.getRolesService().mapKeycloakRolesToInternalRoles(keycloakRoles);
-        return this.cachedUserRoles ? [...this.cachedUserRoles] : [];
+    /**
+     * Order-independent representation of the user's Keycloak roles to detect role changes across tabs
+     */
+    private getRolesFingerprint(): string {
+        return [...new Set(this.getKeycloakRoles())].sort().join(',');
     }
 
     /**
-     * Clear cached user roles (call when user logs out or token changes)
+     * Build the provider configuration from the runtime environment
      */
-    private clearUserRolesCache(): void {
-        this.cachedUserRoles = null;
+    private buildProviderConfig(): AuthProviderConfig {
+        const onLoad = (this.environmentService.keycloakOnLoad || 'login-required') as AuthProviderConfig['onLoad'];
+        const config: AuthProviderConfig = {
+            url: this.environmentService.keycloakUrl,
+            realm: this.environmentService.keycloakRealm,
+            clientId: this.environmentService.keycloakClientId,
+            onLoad,
+            pkceMethod: this.environmentService.keycloakPkceMethod as AuthProviderConfig['pkceMethod']
+        };
+
+        // Only add silentCheckSsoRedirectUri for check-sso mode and in development
+        if (onLoad === 'check-sso' && this.isLocalDevelopment()) {
+            config.silentCheckSsoRedirectUri = window.location.origin + '/assets/silent-check-sso.html';
+        }
+        return config;
     }
 
     /**
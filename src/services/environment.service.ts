@@ -87,10 +87,21 @@ export class EnvironmentService {
         return this._environment.keycloakPkceMethod || 'S256';
     }
 
+    get authAllowedUrls(): string[] {
+        return this._environment.authAllowedUrls || [];
+    }
+
     get logLevel(): LogLevel {
         return this._environment.logLevel;
     }
 
+    /**
+     * Checks whether a feature flag of the runtime config is enabled (unknown flags are disabled)
+     */
+    isFeatureEnabled(feature: string): boolean {
+        return this._environment.features?.[feature] === true;
+    }
+
     isProduction(): boolean {
         return this._environment.stage === Stage.PROD;
     }
@@ -0,0 +1,120 @@
+import { defer, Observable, of } from 'rxjs';
+import { catchError, filter, map, shareReplay } from 'rxjs/operators';
+
+import { HttpBackend, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject, Injectable, signal } from '@angular/core';
+
+import { MOCK_BACKEND_CONFIG } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { Har, HarEntry } from '../interfaces/har.interface';
+import { canonicalizeBody, getHarRequestKey, parseHar } from '../utils/har.utils';
+
+/**
+ * (Developer) Service providing a recorded HAR session as replay source for the mock backend of the MOCK stage.
+ *
+ * Requests are matched by method, path and query (the origin is ignored) and, if harMatchBody is set, by the request body.
+ * Repeated requests are answered with the recorded responses in order; the last one is repeated once the recording is exhausted.
+ * The HAR file of MOCK_BACKEND_CONFIG (harUrl) is loaded on the first lookup; load() replaces it, e.g. with a file chosen by the developer.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class HarReplayService {
+    private config = inject(MOCK_BACKEND_CONFIG);
+    private httpBackend = inject(HttpBackend);
+    private logger: Logger = inject(LogFactoryService).createLogger('HarReplayService');
+
+    private readonly recordedEntries = signal<HarEntry[]>([]);
+    readonly entries = this.recordedEntries.asReadonly();
+
+    private entriesByKey = new Map<string, HarEntry[]>();
+    private replayCounts = new Map<string, number>();
+    private configuredHar$: Observable<void> | null = null;
+
+    /**
+     * Use a HAR file as replay source (replaces the current one)
+     *
+     * @returns The number of entries
+     * @throws Error if the content is no HAR file
+     */
+    load(har: Har | string): number {
+        const entries = parseHar(har).log.entries;
+        this.entriesByKey.clear();
+        this.replayCounts.clear();
+        entries.forEach((entry) => {
+            const key = getHarRequestKey(entry.request.method, entry.request.url);
+            this.entriesByKey.set(key, [...(this.entriesByKey.get(key) ?? []), entry]);
+        });
+        this.recordedEntries.set(entries);
+        // A loaded file takes precedence over the configured one
+        this.configuredHar$ = of(undefined);
+        this.logger.log(`Loaded HAR replay with ${entries.length} entries`);
+        return entries.length;
+    }
+
+    /**
+     * Use a HAR file chosen by the user (e.g. from a file input) as replay source
+     */
+    async loadFile(file: File): Promise<number> {
+        return this.load(await file.text());
+    }
+
+    /**
+     * Remove the replay source
+     */
+    clear(): void {
+        this.entriesByKey.clear();
+        this.replayCounts.clear();
+        this.recordedEntries.set([]);
+        this.configuredHar$ = of(undefined);
+    }
+
+    /**
+     * Find the recorded response for a request
+     *
+     * @returns The HAR entry, or null if the recording contains no matching request
+     */
+    findEntry(request: HttpRequest<unknown>): Observable<HarEntry | null> {
+        return this.loadConfiguredHar().pipe(
+            map(() => {
+                const key = getHarRequestKey(request.method, request.urlWithParams);
+                let candidates = this.entriesByKey.get(key) ?? [];
+                let countKey = key;
+                if (this.config.harMatchBody) {
+                    const body = canonicalizeBody(request.body);
+                    candidates = candidates.filter((entry) => canonicalizeBody(entry.request.postData?.text) === body);
+                    countKey = `${key} ${body}`;
+                }
+                if (candidates.length === 0) {
+                    return null;
+                }
+                const count = this.replayCounts.get(countKey) ?? 0;
+                this.replayCounts.set(countKey, count + 1);
+                return candidates[Math.min(count, candidates.length - 1)];
+            })
+        );
+    }
+
+    /**
+     * Load the HAR file configured in MOCK_BACKEND_CONFIG once; a missing or invalid file leaves the replay empty
+     */
+    private loadConfiguredHar(): Observable<void> {
+        if (!this.configuredHar$) {
+            const harUrl = this.config.harUrl;
+            this.configuredHar$ = !harUrl
+                ? of(undefined)
+                : defer(() => this.httpBackend.handle(new HttpRequest('GET', harUrl, null, { responseType: 'text' }))).pipe(
+                      filter((event): event is HttpResponse<string> => event instanceof HttpResponse),
+                      map((event) => {
+                          this.load(event.body ?? '');
+                      }),
+                      catchError((error: unknown) => {
+                          this.logger.error(`Could not load the HAR replay ${harUrl}:`, error);
+                          return of(undefined);
+                      }),
+                      shareReplay(1)
+                  );
+        }
+        return this.configuredHar$;
+    }
+}
@@ -0,0 +1,175 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+
+import { inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+
+import { IDLE_CONFIG } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AuthService } from './auth.service';
+import { SessionSyncService } from './session-sync.service';
+
+export type IdleState = 'active' | 'warning' | 'timedOut';
+
+/**
+ * Service for idle detection based on user activity (mouse, keyboard, touch, page visibility).
+ * Shows a warning before the idle timeout is reached and ends the session afterwards.
+ * Activity is shared across tabs, so working in one tab keeps the others alive.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class IdleService implements OnDestroy {
+    private authService = inject(AuthService);
+    private sessionSync = inject(SessionSyncService);
+    private ngZone = inject(NgZone);
+    private idleConfig = inject(IDLE_CONFIG);
+    private logger: Logger = inject(LogFactoryService).createLogger('IdleService');
+
+    // Activity is published to other tabs at most once within this interval
+    private readonly ACTIVITY_BROADCAST_INTERVAL_MS = 5000;
+
+    private lastActivity = Date.now();
+    private lastBroadcast = 0;
+    private tickTimer?: number;
+    private running = false;
+
+    private readonly stateSubject = new BehaviorSubject<IdleState>('active');
+    private readonly remainingSecondsSubject = new BehaviorSubject<number>(this.idleConfig.idleTimeoutSeconds);
+
+    /**
+     * Current idle state
+     */
+    readonly state$: Observable<IdleState> = this.stateSubject.pipe(distinctUntilChanged());
+
+    /**
+     * Seconds until the session is ended due to inactivity
+     */
+    readonly remainingSeconds$: Observable<number> = this.remainingSecondsSubject.pipe(distinctUntilChanged());
+
+    private readonly activityListener = () => this.registerActivity();
+    private readonly visibilityListener = () => {
+        if (document.visibilityState === 'visible') {
+            this.registerActivity();
+        }
+    };
+
+    constructor() {
+        // Start idle detection while the user is authenticated
+        this.authService.isAuthenticated$.subscribe((authenticated) => {
+            if (authenticated && this.idleConfig.enabled && this.authService.isAuthProviderActive()) {
+                this.start();
+            } else {
+                this.stop();
+            }
+        });
+
+        // Activity in another tab keeps this tab alive as well
+        this.sessionSync.on('activity').subscribe((message) => {
+            this.lastActivity = Math.max(this.lastActivity, message.timestamp);
+            this.tick();
+        });
+    }
+
+    /**
+     * Start listening for user activity
+     */
+    start(): void {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        this.lastActivity = Date.now();
+        this.logger.debug(`Idle detection started (timeout: ${this.idleConfig.idleTimeoutSeconds}s, warning: ${this.idleConfig.warningSeconds}s)`);
+
+        // Listen outside of Angular to avoid a change detection cycle on every mouse move
+        this.ngZone.runOutsideAngular(() => {
+            this.idleConfig.activityEvents.forEach((eventName) => document.addEventListener(eventName, this.activityListener, { passive: true }));
+            document.addEventListener('visibilitychange', this.visibilityListener);
+            this.tickTimer = window.setInterval(() => this.tick(), 1000);
+        });
+        this.tick();
+    }
+
+    /**
+     * Stop listening for user activity
+     */
+    stop(): void {
+        if (!this.running) {
+            return;
+        }
+        this.running = false;
+        this.idleConfig.activityEvents.forEach((eventName) => document.removeEventListener(eventName, this.activityListener));
+        document.removeEventListener('visibilitychange', this.visibilityListener);
+        if (this.tickTimer) {
+            window.clearInterval(this.tickTimer);
+            this.tickTimer = undefined;
+        }
+        this.ngZone.run(() => this.stateSubject.next('active'));
+        this.logger.debug('Idle detection stopped');
+    }
+
+    /**
+     * Extend the session after the warning was shown (refreshes the token)
+     */
+    async extendSession(): Promise<void> {
+        this.logger.debug('Session extended by user');
+        this.registerActivity(true);
+        try {
+            await this.authService.updateToken(-1);
+        } catch (error) {
+            this.logger.error('Failed to refresh token while extending the session:', error);
+        }
+    }
+
+    /**
+     * End the session immediately; the user returns to the current page after the next login
+     */
+    logoutNow(): Promise<void> {
+        this.stop();
+        return this.authService.logout(window.location.href);
+    }
+
+    ngOnDestroy(): void {
+        this.stop();
+    }
+
+    private registerActivity(force = false): void {
+        // While the warning is shown, only an explicit extension counts as activity
+        if (!this.running || (!force && this.stateSubject.getValue() !== 'active')) {
+            return;
+        }
+        const now = Date.now();
+        this.lastActivity = now;
+        if (force || now - this.lastBroadcast >= this.ACTIVITY_BROADCAST_INTERVAL_MS) {
+            this.lastBroadcast = now;
+            this.sessionSync.publish('activity');
+        }
+        if (force) {
+            this.tick();
+        }
+    }
+
+    private tick(): void {
+        if (!this.running) {
+            return;
+        }
+        const idleSeconds = Math.floor((Date.now() - this.lastActivity) / 1000);
+        const remaining = Math.max(this.idleConfig.idleTimeoutSeconds - idleSeconds, 0);
+        const state: IdleState = remaining === 0 ? 'timedOut' : remaining <= this.idleConfig.warningSeconds ? 'warning' : 'active';
+
+        // Only enter the zone if something visible changed
+        if (state !== this.stateSubject.getValue() || (state === 'warning' && remaining !== this.remainingSecondsSubject.getValue())) {
+            this.ngZone.run(() => {
+                this.remainingSecondsSubject.next(remaining);
+                this.stateSubject.next(state);
+            });
+        } else {
+            this.remainingSecondsSubject.next(remaining);
+        }
+
+        if (state === 'timedOut') {
+            this.logger.warn('Session timed out due to inactivity, logging out');
+            this.logoutNow().catch((error: unknown) => this.logger.error('Logout after idle timeout failed:', error));
+        }
+    }
+}
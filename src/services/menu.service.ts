@@ -1,16 +1,20 @@
 import { MenuItem } from 'primeng/api';
 
-import { inject, Injectable } from '@angular/core';
+import { computed, inject, Injectable, Signal } from '@angular/core';
 
 import { LogFactoryService, Logger } from '../factories/logger.factory';
-import { MenuItemRole } from '../interfaces/roles.interface';
+import { MenuItemRole, Permission } from '../interfaces/roles.interface';
+import { AccessPolicy, PolicyContext } from '../utils/policy.utils';
 import { AuthService } from './auth.service';
 import { EnvironmentService } from './environment.service';
+import { PermissionService } from './permission.service';
+import { PolicyService } from './policy.service';
 import { RolesService } from './roles.service';
 
 // Extended MenuItem interface to include role requirements
 export interface MenuItemWithRoles extends MenuItem {
-    roles?: MenuItemRole;
+    roles?: MenuItemRole | string; // Role lists or a policy expression, e.g. '(editor AND region_ch) OR admin'
+    permissions?: Permission[]; // All of these permissions are required
     items?: MenuItemWithRoles[];
 }
 
@@ -25,6 +29,8 @@ export class MenuService {
     private authService = inject(AuthService);
     private rolesService = inject(RolesService);
     private environmentService = inject(EnvironmentService);
+    private permissionService = inject(PermissionService);
+    private policyService = inject(PolicyService);
     private logFactory = inject(LogFactoryService);
     private logger: Logger;
 
@@ -33,7 +39,8 @@ export class MenuService {
     }
 
     /**
-     * Filters menu items based on user roles (synchronous)
+     * Filters menu items based on user roles (synchronous).
+     * Reads the auth state signals, so calls within a computed are re-evaluated when the authentication or roles change.
      */
     filterMenuItems(menuItems: MenuItemWithRoles[]): MenuItemWithRoles[] {
         if (!this.authService.isAuthenticated() && !this.environmentService.isMock()) {
@@ -73,54 +80,54 @@ export class MenuService {
     }
 
     /**
-     * Checks if user has access to a specific menu item
+     * Checks if user has access to a specific menu item (ignoring its parents)
+     *
+     * @param can Permission check (default: the user's permissions), e.g. to evaluate the item for another role
      */
-    private hasAccessToMenuItem(menuItem: MenuItemWithRoles, userRoles: string[]): boolean {
+    hasAccessToMenuItem(menuItem: MenuItemWithRoles, userRoles: string[], can?: PolicyContext['can']): boolean {
+        const hasPermissions = can ? (menuItem.permissions ?? []).every((permission) => can(permission.op, permission.area)) : !menuItem.permissions || this.permissionService.canAll(menuItem.permissions);
+        if (!hasPermissions) {
+            this.logger.debug(`Access denied to ${menuItem.label} - missing permissions:`, menuItem.permissions);
+            return false;
+        }
+
         // If no roles are specified, item is accessible to all authenticated users
         if (!menuItem.roles) {
             return true;
         }
+        return this.matchesRoleRequirement(menuItem.roles, userRoles, menuItem.label, can);
+    }
 
-        const { requiredRoles, requiredAllRoles, excludeRoles } = menuItem.roles;
-
-        // Check exclude roles first - if user has any excluded role, deny access
-        if (excludeRoles && excludeRoles.some((excludeRole) => userRoles.includes(excludeRole))) {
-            this.logger.debug(`Access denied to ${menuItem.label} - user has excluded role`);
-            return false;
-        }
-
-        // Check if all required roles are present
-        if (requiredAllRoles && requiredAllRoles.length > 0) {
-            const hasAllRoles = requiredAllRoles.every((role) => userRoles.includes(role));
-            if (!hasAllRoles) {
-                this.logger.debug(`Access denied to ${menuItem.label} - missing required roles:`, requiredAllRoles);
-                return false;
-            }
-        }
+    /**
+     * Checks the role requirement or policy expression against the user's current roles (same semantics as the menu item roles).
+     * Reads the auth state signals, so calls within a computed or effect are re-evaluated when the roles change.
+     */
+    hasRoleAccess(roles: AccessPolicy): boolean {
+        return this.matchesRoleRequirement(roles, this.getCurrentUserRoles());
+    }
 
-        // Check if any of the required roles is present
-        if (requiredRoles && requiredRoles.length > 0) {
-            const hasAnyRole = requiredRoles.some((role) => userRoles.includes(role));
-            if (!hasAnyRole) {
-                this.logger.debug(`Access denied to ${menuItem.label} - no required roles:`, requiredRoles);
-                return false;
-            }
+    private matchesRoleRequirement(roles: AccessPolicy, userRoles: string[], label: string = 'role requirement', can?: PolicyContext['can']): boolean {
+        // List-based requirements and expressions are evaluated by the same policy engine
+        const hasAccess = this.policyService.evaluate(roles, userRoles, can);
+        if (!hasAccess) {
+            this.logger.debug(`Access denied to ${label} - policy not satisfied:`, roles);
         }
+        return hasAccess;
+    }
 
-        return true;
+    /**
+     * Filter menu items reactively, the result follows the items and the auth state
+     */
+    filterMenu(menuItems: Signal<MenuItemWithRoles[]>): Signal<MenuItemWithRoles[]> {
+        return computed(() => this.filterMenuItems(menuItems()));
     }
 
     /**
-     * Gets current user roles (from Keycloak)
+     * Gets current user roles (from Keycloak, or from the selected persona in mock mode)
      */
     getCurrentUserRoles(): string[] {
-        if (this.environmentService.isMock()) {
-            // In mock mode, use simulated roles or default to admin
-            return [RolesService.ADMIN_ROLE];
-        }
-
-        // Get mapped internal roles from Keycloak
-        return this.authService.getUserRoles();
+        // Get mapped internal roles
+        return this.authService.internalRoles();
     }
 
     /**
@@ -128,7 +135,7 @@ export class MenuService {
      */
     hasAnyRole(roles: string[]): boolean {
         const userRoles = this.getCurrentUserRoles();
-        return roles.some((role) => userRoles.includes(role));
+        return roles.some((role) => this.rolesService.includesInternalRole(userRoles, role));
     }
 
     /**
@@ -136,6 +143,6 @@ export class MenuService {
      */
     hasAllRoles(roles: string[]): boolean {
         const userRoles = this.getCurrentUserRoles();
-        return roles.every((role) => userRoles.includes(role));
+        return roles.every((role) => this.rolesService.includesInternalRole(userRoles, role));
     }
 }
@@ -0,0 +1,170 @@
+import { Observable, of } from 'rxjs';
+import { catchError, defaultIfEmpty, distinctUntilChanged, filter, finalize, first, map } from 'rxjs/operators';
+
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+
+import { ROLE_DATA_PROVIDER } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { EntitlementItem, Permission, PermissionOperation } from '../interfaces/roles.interface';
+import { AuthService } from './auth.service';
+import { RolesService } from './roles.service';
+
+/**
+ * Service for operation-level permissions ("may the user update in area X").
+ * Evaluates the entitlements of the RoleDataProvider against the user's Keycloak roles.
+ * An entitlement grants its operations (e.g. 'CRU') in its area to the Keycloak roles of its role expression ("roleA or roleB").
+ * Used by route data and menu items ('permissions') and the *appCan directive.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PermissionService {
+    private authService = inject(AuthService);
+    private rolesService = inject(RolesService);
+    private roleDataProvider = inject(ROLE_DATA_PROVIDER);
+    private logger: Logger = inject(LogFactoryService).createLogger('PermissionService');
+
+    private readonly entitlements = signal<EntitlementItem[]>([]);
+    private readonly loaded = signal(false);
+    private loading = false;
+
+    /**
+     * Whether the entitlements have been loaded
+     */
+    readonly isLoaded = this.loaded.asReadonly();
+
+    /**
+     * Granted operations per area of the current user (re-evaluated when the entitlements or roles change)
+     */
+    private readonly grantedOperations = computed(() => this.getGrantedOperations(this.getEffectiveKeycloakRoles()));
+
+    /**
+     * Granted operations once the entitlements are loaded (null before), created once so observers do not create effects of their own
+     */
+    private readonly loadedGrantedOperations$ = toObservable(computed(() => (this.loaded() ? this.grantedOperations() : null)));
+
+    constructor() {
+        // Load the entitlements once the user is authenticated
+        toObservable(this.authService.isAuthenticated)
+            .pipe(filter((authenticated) => authenticated))
+            .subscribe(() => this.loadEntitlements());
+    }
+
+    /**
+     * Granted operations per area for the given Keycloak roles (e.g. for reports about other roles than the user's)
+     */
+    getGrantedOperations(keycloakRoles: string[]): Map<string, Set<string>> {
+        const userRoles = new Set(keycloakRoles);
+        const granted = new Map<string, Set<string>>();
+        for (const entitlement of this.entitlements()) {
+            if (!entitlement.isActive || !this.parseRoleExpression(entitlement.role).some((role) => userRoles.has(role))) {
+                continue;
+            }
+            const operations = granted.get(entitlement.bereich) ?? new Set<string>();
+            entitlement.operations
+                .toUpperCase()
+                .split('')
+                .forEach((operation) => operations.add(operation));
+            granted.set(entitlement.bereich, operations);
+        }
+        return granted;
+    }
+
+    /**
+     * Check whether the user may perform the operation in the area.
+     * Reads signals, so calls within a computed or effect are re-evaluated when the entitlements or roles change.
+     */
+    can(operation: PermissionOperation, area: string): boolean {
+        return this.grantedOperations().get(area)?.has(operation) ?? false;
+    }
+
+    /**
+     * Check whether the user has all of the permissions
+     */
+    canAll(permissions: Permission[]): boolean {
+        return permissions.every((permission) => this.can(permission.op, permission.area));
+    }
+
+    /**
+     * Observe whether the user may perform the operation in the area (emits once the entitlements are loaded)
+     */
+    can$(operation: PermissionOperation, area: string): Observable<boolean> {
+        return this.loadedGrantedOperations$.pipe(
+            filter((granted): granted is Map<string, Set<string>> => granted !== null),
+            map((granted) => granted.get(area)?.has(operation) ?? false),
+            distinctUntilChanged()
+        );
+    }
+
+    /**
+     * Emits once the entitlements are loaded (used by guards before evaluating permissions)
+     */
+    whenLoaded(): Observable<void> {
+        this.loadEntitlements();
+        return this.loadedGrantedOperations$.pipe(
+            first((granted) => granted !== null),
+            map(() => undefined)
+        );
+    }
+
+    /**
+     * Load the entitlements from the RoleDataProvider (again, e.g. after they were changed)
+     */
+    reload(): void {
+        this.loaded.set(false);
+        this.loadEntitlements(true);
+    }
+
+    private loadEntitlements(force = false): void {
+        if (this.loading || (this.loaded() && !force)) {
+            return;
+        }
+        if (!this.roleDataProvider.fetchEntitlements) {
+            this.logger.debug('RoleDataProvider does not provide entitlements, no operations permitted');
+            this.loaded.set(true);
+            return;
+        }
+
+        this.loading = true;
+        this.roleDataProvider
+            .fetchEntitlements()
+            .pipe(
+                catchError((error: unknown) => {
+                    this.logger.error('Error fetching entitlements:', error);
+                    return of([] as EntitlementItem[]);
+                }),
+                // A provider completing without a value must not leave the guards waiting
+                defaultIfEmpty([] as EntitlementItem[]),
+                finalize(() => (this.loading = false))
+            )
+            .subscribe((entitlements) => {
+                this.logger.debug(`Loaded ${entitlements.length} entitlements`);
+                this.loading = false;
+                this.entitlements.set(entitlements);
+                this.loaded.set(true);
+            });
+    }
+
+    /**
+     * Split a Keycloak role expression like "roleA or roleB" into its roles
+     */
+    private parseRoleExpression(expression: string): string[] {
+        return expression
+            .split(/\s+or\s+/i)
+            .map((role) => role.trim())
+            .filter((role) => role.length > 0);
+    }
+
+    /**
+     * The user's Keycloak roles; while a role simulation is active only those mapping to a simulated role
+     */
+    private getEffectiveKeycloakRoles(): string[] {
+        const keycloakRoles = this.authService.keycloakRoles();
+        if (!this.authService.roleSimulationActive()) {
+            return keycloakRoles;
+        }
+        const simulatedRoles = this.authService.internalRoles();
+        return keycloakRoles.filter((role) => this.rolesService.mapKeycloakRolesToInternalRoles([role], false).some((internalRole) => simulatedRoles.includes(internalRole)));
+    }
+}
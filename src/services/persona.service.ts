@@ -0,0 +1,133 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { inject, Injectable } from '@angular/core';
+
+import { MOCK_PERSONAS, ROLES_CONFIG } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AuthTokenClaims, AuthUserProfile } from '../interfaces/auth.interface';
+import { MockPersona } from '../interfaces/persona.interface';
+import { BrowserStorageService } from './storage.service';
+
+/**
+ * Service for the simulated users (personas) of the MOCK stage.
+ * Personas are provided via the MOCK_PERSONAS token or loaded from '/assets/mock/personas.json'.
+ * The selected persona is kept in session storage, so it survives reloads of the current tab.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PersonaService {
+    private storageService = inject(BrowserStorageService);
+    private rolesConfig = inject(ROLES_CONFIG);
+    private configuredPersonas = inject(MOCK_PERSONAS);
+    private logger: Logger = inject(LogFactoryService).createLogger('PersonaService');
+
+    private readonly STORAGE_KEY = 'mock_persona';
+    private readonly PERSONAS_URL = '/assets/mock/personas.json';
+
+    private personas: MockPersona[] = [];
+    private readonly activePersonaSubject = new BehaviorSubject<MockPersona | null>(null);
+
+    /**
+     * Currently selected persona (null until the personas are loaded)
+     */
+    readonly activePersona$: Observable<MockPersona | null> = this.activePersonaSubject.asObservable();
+
+    /**
+     * Load the personas and restore the persona selected in this session
+     */
+    async loadPersonas(): Promise<MockPersona[]> {
+        this.personas = this.configuredPersonas.length > 0 ? this.configuredPersonas : await this.fetchPersonas();
+        if (this.personas.length === 0) {
+            this.logger.warn('No personas configured, using the default persona');
+            this.personas = [this.getDefaultPersona()];
+        }
+
+        const storedId = this.storageService.getSession<string>(this.STORAGE_KEY);
+        const persona = this.personas.find((p) => p.id === storedId) ?? this.personas[0];
+        this.logger.debug(`Loaded ${this.personas.length} personas, active persona: ${persona.id}`);
+        this.activePersonaSubject.next(persona);
+        return this.personas;
+    }
+
+    getPersonas(): MockPersona[] {
+        return [...this.personas];
+    }
+
+    getActivePersona(): MockPersona | null {
+        return this.activePersonaSubject.getValue();
+    }
+
+    /**
+     * Switch to another persona
+     */
+    selectPersona(id: string): void {
+        const persona = this.personas.find((p) => p.id === id);
+        if (!persona) {
+            this.logger.warn(`Unknown persona '${id}'`);
+            return;
+        }
+        this.storageService.setSession(this.STORAGE_KEY, persona.id);
+        this.logger.debug(`Persona switched to '${persona.id}'`);
+        this.activePersonaSubject.next(persona);
+    }
+
+    /**
+     * Build the user profile of a persona
+     */
+    toUserProfile(persona: MockPersona): AuthUserProfile {
+        return {
+            id: persona.id,
+            username: persona.email,
+            email: persona.email,
+            firstName: persona.firstName,
+            lastName: persona.lastName
+        };
+    }
+
+    /**
+     * Build the token claims of a persona (standard claims merged with the configured ones).
+     * The Keycloak roles of the persona are issued as client roles of the given client.
+     */
+    toTokenClaims(persona: MockPersona, clientId: string): AuthTokenClaims {
+        return {
+            sub: persona.id,
+            email: persona.email,
+            name: `${persona.firstName} ${persona.lastName}`,
+            given_name: persona.firstName,
+            family_name: persona.lastName,
+            preferred_username: persona.email,
+            resource_access: { [clientId]: { roles: persona.keycloakRoles } },
+            ...persona.claims
+        };
+    }
+
+    private async fetchPersonas(): Promise<MockPersona[]> {
+        try {
+            const response = await fetch(this.PERSONAS_URL);
+            if (!response.ok) {
+                this.logger.warn(`Failed to load personas from ${this.PERSONAS_URL}: HTTP ${response.status}`);
+                return [];
+            }
+            return (await response.json()) as MockPersona[];
+        } catch (error) {
+            this.logger.warn(`Failed to load personas from ${this.PERSONAS_URL}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Administrator persona used if no personas are configured (previous MOCK behaviour)
+     */
+    private getDefaultPersona(): MockPersona {
+        return {
+            id: 'default',
+            firstName: 'Max',
+            lastName: 'Muster',
+            email: 'max.muster@example.com',
+            description: 'Administrator',
+            keycloakRoles: [],
+            internalRoles: [this.rolesConfig.ROLE_CONSTANTS['ADMIN']]
+        };
+    }
+}
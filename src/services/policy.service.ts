@@ -0,0 +1,66 @@
+import { inject, Injectable } from '@angular/core';
+
+import { SUPERUSER_ROLE } from '../config/roles.config';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { AccessPolicy, compileAccessPolicy, evaluatePolicy, PolicyContext, PolicyExpression } from '../utils/policy.utils';
+import { AuthService } from './auth.service';
+import { EnvironmentService } from './environment.service';
+import { PermissionService } from './permission.service';
+
+/**
+ * Service evaluating access policies (see policy.utils.ts) against the current user.
+ * Used by the menu, the role guard and the role directives, so expressions and list-based role requirements behave identically.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PolicyService {
+    private authService = inject(AuthService);
+    private permissionService = inject(PermissionService);
+    private environmentService = inject(EnvironmentService);
+    private logger: Logger = inject(LogFactoryService).createLogger('PolicyService');
+
+    private readonly reportedInvalidPolicies = new Set<string>();
+
+    /**
+     * Evaluate an access policy; invalid expressions deny access.
+     * Reads the auth state signals, so calls within a computed or effect are re-evaluated when the roles or entitlements change.
+     *
+     * @param policy Policy expression or list-based role requirement
+     * @param userRoles Roles to evaluate role predicates against (default: the user's effective internal roles)
+     * @param can Permission check for permission predicates (default: the user's permissions)
+     */
+    evaluate(policy: AccessPolicy, userRoles: string[] = this.authService.internalRoles(), can?: PolicyContext['can']): boolean {
+        const expression = this.compile(policy);
+        return expression !== null && evaluatePolicy(expression, this.createContext(userRoles, can));
+    }
+
+    /**
+     * Compile an access policy, logging invalid expressions once
+     *
+     * @returns The compiled policy, or null if the expression is invalid
+     */
+    compile(policy: AccessPolicy): PolicyExpression | null {
+        try {
+            return compileAccessPolicy(policy);
+        } catch (error) {
+            const source = String(policy);
+            if (!this.reportedInvalidPolicies.has(source)) {
+                this.reportedInvalidPolicies.add(source);
+                this.logger.error('Invalid access policy, access is denied:', error);
+            }
+            return null;
+        }
+    }
+
+    private createContext(userRoles: string[], can?: PolicyContext['can']): PolicyContext {
+        const roles = new Set(userRoles);
+        return {
+            hasRole: (role) => roles.has(role),
+            superuser: roles.has(SUPERUSER_ROLE),
+            can: can ?? ((op, area) => this.permissionService.can(op, area)),
+            stage: this.environmentService.stage,
+            isFeatureEnabled: (feature) => this.environmentService.isFeatureEnabled(feature)
+        };
+    }
+}
@@ -0,0 +1,130 @@
+import { filter, take } from 'rxjs/operators';
+
+import { Location } from '@angular/common';
+import { inject, Injectable } from '@angular/core';
+import { NavigationEnd, Router } from '@angular/router';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { BrowserStorageService } from './storage.service';
+
+/**
+ * Service to preserve the requested URL (route, query params and fragment) across login redirects.
+ * The URL is captured before login, step-up and session expiry redirects and restored after the authentication.
+ * Only same-origin URLs are accepted, so a tampered value cannot redirect the user to another site.
+ * The URL is stored as router URL (without the base href), so it can be passed to router.navigateByUrl; use toBrowserUrl for window.location.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ReturnUrlService {
+    private router = inject(Router);
+    private location = inject(Location);
+    private storageService = inject(BrowserStorageService);
+    private logger: Logger = inject(LogFactoryService).createLogger('ReturnUrlService');
+
+    private readonly STORAGE_KEY = 'auth_return_url';
+
+    /**
+     * Remember a URL to return to after the next authentication (defaults to the current page).
+     * Paths are router URLs (e.g. RouterStateSnapshot.url); absolute URLs are browser URLs, must have the own origin
+     * and are stored without the base href. Login callback URLs are ignored.
+     */
+    capture(url: string = this.location.path(true)): void {
+        const returnUrl = this.toRouterUrl(url);
+        if (!returnUrl || this.isAuthCallbackUrl(returnUrl)) {
+            return;
+        }
+        this.logger.debug('Return URL captured:', returnUrl);
+        this.storageService.setSession(this.STORAGE_KEY, returnUrl);
+    }
+
+    /**
+     * Get the captured return URL without removing it
+     */
+    peek(): string | null {
+        const stored = this.storageService.getSession<string>(this.STORAGE_KEY);
+        // Validate again, the session storage could have been modified
+        return stored ? this.toRouterUrl(stored) : null;
+    }
+
+    /**
+     * Get and remove the captured return URL
+     */
+    consume(): string | null {
+        const returnUrl = this.peek();
+        this.storageService.removeSession(this.STORAGE_KEY);
+        return returnUrl;
+    }
+
+    /**
+     * Navigate to the captured return URL (once the initial navigation has completed).
+     *
+     * @returns boolean - True if a return URL was found
+     */
+    restore(): boolean {
+        const returnUrl = this.consume();
+        if (!returnUrl) {
+            return false;
+        }
+        if (this.router.navigated && returnUrl === this.router.url) {
+            return true;
+        }
+
+        const navigate = () => {
+            this.logger.debug('Restoring return URL:', returnUrl);
+            this.router.navigateByUrl(returnUrl).catch((error: unknown) => this.logger.error('Failed to restore return URL:', error));
+        };
+        if (this.router.navigated) {
+            navigate();
+        } else {
+            this.router.events
+                .pipe(
+                    filter((event) => event instanceof NavigationEnd),
+                    take(1)
+                )
+                .subscribe(navigate);
+        }
+        return true;
+    }
+
+    /**
+     * Convert a return URL to a router URL: paths are kept, absolute same-origin URLs lose the origin and the base href
+     *
+     * @returns The router URL, or null if the URL has a foreign origin or is invalid
+     */
+    toRouterUrl(url: string): string | null {
+        const safeUrl = this.toSafeUrl(url);
+        if (safeUrl === null) {
+            return null;
+        }
+        return /^[a-z][a-z\d+.-]*:/i.test(url) ? this.location.normalize(safeUrl) || '/' : safeUrl;
+    }
+
+    /**
+     * Convert a router URL to the URL for window.location (with the base href)
+     */
+    toBrowserUrl(routerUrl: string): string {
+        return this.location.prepareExternalUrl(routerUrl);
+    }
+
+    /**
+     * Convert a URL to a path (path, query and fragment, without the origin) if it is same-origin, otherwise null
+     */
+    toSafeUrl(url: string): string | null {
+        try {
+            // Protocol-relative URLs ('//host') would be resolved to another origin and are rejected below
+            const parsed = new URL(url, window.location.origin);
+            if (parsed.origin !== window.location.origin) {
+                this.logger.warn(`Ignoring return URL with foreign origin: ${url}`);
+                return null;
+            }
+            return parsed.pathname + parsed.search + parsed.hash;
+        } catch {
+            return null;
+        }
+    }
+
+    private isAuthCallbackUrl(url: string): boolean {
+        return /[?#&]state=/.test(url) && /[?#&](code|error)=/.test(url);
+    }
+}
@@ -0,0 +1,92 @@
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { inject, Injectable, Injector } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { DeveloperService } from './developer.service';
+import { EnvironmentService } from './environment.service';
+import { RolesService } from './roles.service';
+import { BrowserStorageService } from './storage.service';
+
+/**
+ * Service for the "view as role" simulation.
+ * Lets admins and developers replace their effective internal roles with a chosen subset
+ * to check what a user with fewer rights sees. Not available in production.
+ * The simulation is kept in session storage and ends when the tab is closed.
+ * AuthService re-runs the guards of the current route when the simulation changes the roles.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RoleSimulationService {
+    private developerService = inject(DeveloperService);
+    private environmentService = inject(EnvironmentService);
+    private storageService = inject(BrowserStorageService);
+    private injector = inject(Injector);
+    private logger: Logger = inject(LogFactoryService).createLogger('RoleSimulationService');
+
+    private readonly STORAGE_KEY = 'role_simulation';
+
+    private readonly simulatedRolesSubject = new BehaviorSubject<string[] | null>(this.storageService.getSession<string[]>(this.STORAGE_KEY));
+
+    /**
+     * Simulated internal roles, or null if no simulation is active
+     */
+    readonly simulatedRoles$: Observable<string[] | null> = this.simulatedRolesSubject.asObservable();
+
+    /**
+     * Check whether a user with the given (actual) internal roles may simulate roles
+     */
+    canSimulate(actualRoles: string[]): boolean {
+        if (this.environmentService.isProduction()) {
+            return false;
+        }
+        return this.developerService.isDeveloperModeEnabled() || actualRoles.includes(RolesService.ADMIN_ROLE);
+    }
+
+    isActive(): boolean {
+        return this.simulatedRolesSubject.getValue() !== null;
+    }
+
+    getSimulatedRoles(): string[] | null {
+        const roles = this.simulatedRolesSubject.getValue();
+        return roles ? [...roles] : null;
+    }
+
+    /**
+     * Act with the given internal roles instead of the actual ones.
+     * Roles unknown to the application (see RolesService.getKnownInternalRoles) are dropped with a warning.
+     *
+     * @returns False if none of the roles is known and the simulation was not started
+     */
+    start(roles: string[]): boolean {
+        // Resolved lazily: RolesService depends on AuthService, which creates this service
+        const knownRoles = this.injector.get(RolesService).getKnownInternalRoles();
+        const unknownRoles = roles.filter((role) => !knownRoles.includes(role));
+        if (unknownRoles.length > 0) {
+            this.logger.warn('Ignoring unknown roles in the role simulation:', unknownRoles);
+        }
+        const simulatedRoles = roles.filter((role) => knownRoles.includes(role));
+        if (simulatedRoles.length === 0) {
+            this.logger.warn('Role simulation not started, none of the roles is known:', roles);
+            return false;
+        }
+
+        this.logger.debug('Role simulation started with roles:', simulatedRoles);
+        this.storageService.setSession(this.STORAGE_KEY, simulatedRoles);
+        this.simulatedRolesSubject.next(simulatedRoles);
+        return true;
+    }
+
+    /**
+     * Return to the actual roles
+     */
+    stop(): void {
+        if (!this.isActive()) {
+            return;
+        }
+        this.logger.debug('Role simulation stopped');
+        this.storageService.removeSession(this.STORAGE_KEY);
+        this.simulatedRolesSubject.next(null);
+    }
+}
@@ -1,30 +1,41 @@
 import { BehaviorSubject, Observable, of } from 'rxjs';
-import { catchError, filter, first, map, shareReplay, tap } from 'rxjs/operators';
+import { catchError, filter, finalize, first, map, shareReplay, tap } from 'rxjs/operators';
 
 import { HttpErrorResponse } from '@angular/common/http';
 import { inject, Injectable, NgZone } from '@angular/core';
 
+import { DEFAULT_ROLE_MAPPINGS_CACHE_TTL_MINUTES, SUPERUSER_ROLE } from '../config/roles.config';
 import { ROLE_DATA_PROVIDER, ROLES_CONFIG } from '../config/tokens';
 import { LogFactoryService, Logger } from '../factories/logger.factory';
-import { InternalRole } from '../interfaces/roles.interface';
-import { EnvironmentService } from './environment.service';
+import { RouteRoleMapping } from '../interfaces/access-decision.interface';
+import { CachedRoleMappings, InternalRole } from '../interfaces/roles.interface';
+import { compileRoutePatterns, findBestRouteMatch, validateRoutePatterns } from '../utils/route-matcher.utils';
+import { ApiService } from './api.service';
+import { AuthService } from './auth.service';
+import { SessionSyncService } from './session-sync.service';
 import { BrowserStorageService } from './storage.service';
 
 /**
  * Service for role management
  * Maps Keycloak roles to internal application roles
  * Provides methods to retrieve and manage user roles
+ *
+ * The role mappings are cached in session storage for the authenticated user (scoped by 'sub').
+ * Expired mappings are used immediately and revalidated in the background (stale-while-revalidate);
+ * a newer 'cacheValidThru' in the API metadata invalidates them.
  */
 @Injectable({
     providedIn: 'root'
 })
 export class RolesService {
     private logFactory = inject(LogFactoryService);
-    private environmentService = inject(EnvironmentService);
     private storageService = inject(BrowserStorageService);
     private ngZone = inject(NgZone);
     private rolesConfig = inject(ROLES_CONFIG);
     private roleDataProvider = inject(ROLE_DATA_PROVIDER);
+    private sessionSync = inject(SessionSyncService);
+    private apiService = inject(ApiService);
+    private authService = inject(AuthService); // Direct dependency, AuthService resolves RolesService lazily instead
     private logger: Logger;
 
     // Role constants - provided via dependency injection
@@ -32,16 +43,20 @@ export class RolesService {
     public static SYSTEM_ROLE: string;
 
     private readonly STORAGE_KEY_ROLES = 'user_roles_cache';
+    private readonly cacheTtlMs = (this.rolesConfig.ROLE_MAPPINGS_CACHE_TTL_MINUTES ?? DEFAULT_ROLE_MAPPINGS_CACHE_TTL_MINUTES) * 60 * 1000;
 
     private currentRolesSubject = new BehaviorSubject<string[]>([]);
     private internalRolesCache$: Observable<InternalRole[]> | null = null;
     private roleMappingCache: Map<string, string[]> = new Map(); // Keycloak role -> Internal roles
+    private inheritedRolesCache: Map<string, string[]> = new Map(); // Internal role -> Effective roles (itself and all inherited roles)
+    private readonly routePatterns = compileRoutePatterns(Object.keys(this.rolesConfig.ROUTE_ROLE_MAPPINGS));
 
     // Backward compatibility properties
     private isLoadingMappingsSubject = new BehaviorSubject<boolean>(true);
     public isLoadingMappings$: Observable<boolean> = this.isLoadingMappingsSubject.asObservable();
 
     private initialized = false;
+    private revalidating = false;
 
     constructor() {
         this.logger = this.logFactory.createLogger('RolesService');
@@ -49,6 +64,31 @@ export class RolesService {
         // Initialize static properties from injected config
         RolesService.ADMIN_ROLE = this.rolesConfig.ROLE_CONSTANTS['ADMIN'];
         RolesService.SYSTEM_ROLE = this.rolesConfig.ROLE_CONSTANTS['SYSTEM'];
+
+        this.validateRouteRoleMappings();
+
+        // Reload the role mappings when they were changed in another tab
+        this.sessionSync.on('roleMappingsChanged').subscribe(() => {
+            this.logger.debug('Role mappings changed in another tab');
+            this.reloadRoleMappings();
+        });
+
+        // Server-driven invalidation: the API announces until when cached data is valid
+        this.apiService
+            .getApiMetadata$()
+            .pipe(filter((meta) => !!meta?.cacheValidThru))
+            .subscribe((meta) => this.handleCacheValidThru(meta!.cacheValidThru!));
+
+        // Never reuse the mappings of another user
+        this.authService.onAuthSuccess$.subscribe(() => {
+            const cached = this.storageService.getSession<CachedRoleMappings>(this.STORAGE_KEY_ROLES);
+            if (this.initialized && cached && cached.sub !== this.getCurrentSub()) {
+                this.logger.debug('Cached role mappings belong to another user, reloading');
+                this.clearRolesCache();
+                this.reloadRoleMappings();
+            }
+        });
+        this.authService.onAuthLogout$.subscribe(() => this.clearRolesCache());
     }
 
     /**
@@ -62,9 +102,10 @@ export class RolesService {
             this.isLoadingMappingsSubject.next(true);
         });
 
-        const cachedRoles = this.loadRolesFromStorage();
+        const cached = this.loadRolesFromStorage();
+        const cachedRoles = cached?.mappings;
 
-        if (cachedRoles && cachedRoles.length > 0) {
+        if (cached && cachedRoles && cachedRoles.length > 0) {
             this.logger.debug(`Loaded ${cachedRoles.length} roles from session storage:`, cachedRoles);
             // Use cached roles immediately
             this.internalRolesCache$ = of(cachedRoles).pipe(shareReplay(1));
@@ -73,6 +114,10 @@ export class RolesService {
             this.ngZone.run(() => {
                 this.isLoadingMappingsSubject.next(false);
             });
+            if (cached.expiry <= Date.now()) {
+                this.logger.debug('Cached role mappings expired, revalidating in the background');
+                this.revalidateRoleMappings();
+            }
         } else {
             this.logger.debug('No cached roles found, will load from API');
             // No cache, load from API (loadRoleMappings will set loading to false when done)
@@ -159,11 +204,75 @@ export class RolesService {
         );
     }
 
+    /**
+     * Fetch the role mappings without showing the loading screen; the current mappings stay in use until the new ones arrive
+     * and are kept if the request fails
+     */
+    private revalidateRoleMappings(): void {
+        if (this.revalidating) {
+            return;
+        }
+        this.revalidating = true;
+        this.roleDataProvider
+            .fetchRoleMappings()
+            .pipe(finalize(() => (this.revalidating = false)))
+            .subscribe({
+                next: (roles: InternalRole[]) => {
+                    this.logger.debug('Role mappings revalidated:', roles);
+                    this.buildRoleMappingCache(roles);
+                    this.saveRolesToStorage(roles);
+                    this.internalRolesCache$ = of(roles).pipe(shareReplay(1));
+                    // Notify listeners (e.g. AuthService) that the mappings changed
+                    this.ngZone.run(() => {
+                        this.isLoadingMappingsSubject.next(false);
+                    });
+                },
+                error: (error: HttpErrorResponse) => {
+                    this.logger.warn('Error revalidating role mappings, keeping the cached mappings:', error);
+                }
+            });
+    }
+
+    /**
+     * Invalidate the cached mappings if the server announces a newer 'cacheValidThru' than the one they were cached with
+     */
+    private handleCacheValidThru(cacheValidThru: string): void {
+        const cached = this.storageService.getSession<CachedRoleMappings>(this.STORAGE_KEY_ROLES);
+        if (!cached) {
+            return;
+        }
+        if (!cached.cacheValidThru) {
+            // Cached before the API announced a timestamp - remember it as reference for later changes
+            this.storageService.setSession(this.STORAGE_KEY_ROLES, { ...cached, cacheValidThru });
+            return;
+        }
+
+        const announced = Date.parse(cacheValidThru);
+        if (!isNaN(announced) && announced > Date.parse(cached.cacheValidThru)) {
+            this.logger.debug(`Role mappings invalidated by the API (cacheValidThru ${cached.cacheValidThru} -> ${cacheValidThru})`);
+            this.storageService.setSession(this.STORAGE_KEY_ROLES, { ...cached, expiry: 0, cacheValidThru });
+            this.revalidateRoleMappings();
+        }
+    }
+
+    /**
+     * Subject of the authenticated user, used to scope the cache
+     */
+    private getCurrentSub(): string | undefined {
+        return this.authService.getParsedToken()?.sub;
+    }
+
     /**
      * Save roles to session storage using BrowserStorageService
      */
     private saveRolesToStorage(roles: InternalRole[]): void {
-        const success = this.storageService.setSession(this.STORAGE_KEY_ROLES, roles);
+        const cached: CachedRoleMappings = {
+            mappings: roles,
+            expiry: Date.now() + this.cacheTtlMs,
+            cacheValidThru: this.apiService.getCacheValidThru() ?? undefined,
+            sub: this.getCurrentSub()
+        };
+        const success = this.storageService.setSession(this.STORAGE_KEY_ROLES, cached);
         if (success) {
             this.logger.debug('Roles saved to session storage');
         } else {
@@ -173,16 +282,22 @@ export class RolesService {
 
     /**
      * Load roles from session storage using BrowserStorageService
+     * Returns null if there are no cached roles or they were cached for another user
      */
-    private loadRolesFromStorage(): InternalRole[] | null {
+    private loadRolesFromStorage(): CachedRoleMappings | null {
         this.logger.debug('Attempting to load roles from session storage...');
-        const roles = this.storageService.getSession<InternalRole[]>(this.STORAGE_KEY_ROLES);
-        if (roles) {
-            this.logger.debug(`Found ${roles.length} roles in session storage`);
-        } else {
+        const cached = this.storageService.getSession<CachedRoleMappings>(this.STORAGE_KEY_ROLES);
+        if (!cached || !Array.isArray(cached.mappings)) {
             this.logger.debug('No roles found in session storage');
+            return null;
+        }
+        if (cached.sub !== this.getCurrentSub()) {
+            this.logger.debug('Cached roles belong to another user, ignoring them');
+            this.clearRolesCache();
+            return null;
         }
-        return roles;
+        this.logger.debug(`Found ${cached.mappings.length} roles in session storage`);
+        return cached;
     }
 
     /**
@@ -217,6 +332,61 @@ export class RolesService {
         });
 
         this.logger.debug('Role mapping cache built:', this.roleMappingCache);
+        this.buildRoleHierarchy(internalRoles);
+    }
+
+    /**
+     * Resolve the role hierarchy (internal role -> itself and all transitively inherited roles)
+     * Inheritance cycles are logged and broken at the role closing the cycle; '*' adds the SUPERUSER_ROLE marker, not all roles
+     */
+    private buildRoleHierarchy(internalRoles: InternalRole[]): void {
+        this.inheritedRolesCache.clear();
+
+        const allRoles = internalRoles.map((internalRole) => internalRole.name);
+        const inheritsByRole = new Map(internalRoles.map((internalRole) => [internalRole.name, internalRole.inherits ?? []]));
+        const cycles = new Set<string>();
+
+        const resolve = (roleName: string, path: string[]): Set<string> => {
+            const effectiveRoles = new Set<string>([roleName]);
+            for (const inheritedRole of inheritsByRole.get(roleName) ?? []) {
+                if (inheritedRole === SUPERUSER_ROLE) {
+                    effectiveRoles.add(SUPERUSER_ROLE);
+                } else if (path.includes(inheritedRole)) {
+                    cycles.add([...path.slice(path.indexOf(inheritedRole)), inheritedRole].join(' -> '));
+                } else {
+                    resolve(inheritedRole, [...path, inheritedRole]).forEach((role) => effectiveRoles.add(role));
+                }
+            }
+            return effectiveRoles;
+        };
+
+        allRoles.forEach((roleName) => this.inheritedRolesCache.set(roleName, Array.from(resolve(roleName, [roleName]))));
+        cycles.forEach((cycle) => this.logger.warn(`Role inheritance cycle detected: ${cycle}`));
+
+        this.logger.debug('Role hierarchy built:', this.inheritedRolesCache);
+    }
+
+    /**
+     * Expand internal roles by all roles they inherit (transitively); superusers get the SUPERUSER_ROLE marker
+     */
+    public expandInheritedRoles(internalRoles: string[]): string[] {
+        const effectiveRoles = new Set<string>();
+        internalRoles.forEach((role) => (this.inheritedRolesCache.get(role) ?? [role]).forEach((effectiveRole) => effectiveRoles.add(effectiveRole)));
+        return Array.from(effectiveRoles);
+    }
+
+    /**
+     * Names of the internal roles known to the application: the loaded internal roles and the configured role constants
+     */
+    public getKnownInternalRoles(): string[] {
+        return Array.from(new Set([...this.inheritedRolesCache.keys(), ...Object.values(this.rolesConfig.ROLE_CONSTANTS)]));
+    }
+
+    /**
+     * Check whether effective internal roles include a required role (superusers include every role)
+     */
+    public includesInternalRole(effectiveRoles: string[], role: string): boolean {
+        return effectiveRoles.includes(role) || effectiveRoles.includes(SUPERUSER_ROLE);
     }
 
     /**
@@ -228,20 +398,18 @@ export class RolesService {
                 name: RolesService.ADMIN_ROLE,
                 displayName: RolesService.ADMIN_ROLE,
                 description: 'Full system access',
-                keycloakRoles: []
+                keycloakRoles: [],
+                inherits: ['*']
             }
         ];
     }
 
     /**
      * Map Keycloak roles to internal application roles
+     * @param keycloakRoles User's Keycloak roles
+     * @param includeInherited Also include the roles inherited by the mapped roles (default: true)
      */
-    public mapKeycloakRolesToInternalRoles(keycloakRoles: string[]): string[] {
-        if (this.environmentService.isMock()) {
-            this.logger.debug('Mock mode: Returning admin role');
-            return [RolesService.ADMIN_ROLE];
-        }
-
+    public mapKeycloakRolesToInternalRoles(keycloakRoles: string[], includeInherited = true): string[] {
         if (!keycloakRoles || keycloakRoles.length === 0) {
             this.logger.debug('No Keycloak roles provided');
             return [];
@@ -256,7 +424,7 @@ export class RolesService {
             }
         });
 
-        const result = Array.from(internalRoles);
+        const result = includeInherited ? this.expandInheritedRoles(Array.from(internalRoles)) : Array.from(internalRoles);
         this.logger.debug(`Mapped Keycloak roles ${keycloakRoles.join(', ')} to internal roles:`, result);
 
         return result;
@@ -267,7 +435,7 @@ export class RolesService {
      */
     public hasInternalRole(keycloakRoles: string[], targetInternalRole: string): boolean {
         const internalRoles = this.mapKeycloakRolesToInternalRoles(keycloakRoles);
-        const hasRole = internalRoles.includes(targetInternalRole);
+        const hasRole = this.includesInternalRole(internalRoles, targetInternalRole);
 
         this.logger.debug(`Checking if user has internal role '${targetInternalRole}':`, hasRole);
         return hasRole;
@@ -278,7 +446,7 @@ export class RolesService {
      */
     public hasAnyInternalRole(keycloakRoles: string[], targetInternalRoles: string[]): boolean {
         const internalRoles = this.mapKeycloakRolesToInternalRoles(keycloakRoles);
-        const hasAny = targetInternalRoles.some((role) => internalRoles.includes(role));
+        const hasAny = targetInternalRoles.some((role) => this.includesInternalRole(internalRoles, role));
 
         this.logger.debug(`Checking if user has any of roles ${targetInternalRoles.join(', ')}:`, hasAny);
         return hasAny;
@@ -365,21 +533,11 @@ export class RolesService {
     }
 
     /**
-     * Check route access based on Keycloak roles
+     * Check route access based on Keycloak roles (the combined role set of AuthService.getRoles())
      * Uses centralized route-to-role mappings from roles.config.ts
      */
     public checkRouteAccess(keycloakRoles: string[], routePath: string): boolean {
-        // Find matching route - check most specific routes first (longest path)
-        let requiredRoles: string[] = [];
-        let longestMatch = '';
-
-        for (const [route, roles] of Object.entries(this.rolesConfig.ROUTE_ROLE_MAPPINGS)) {
-            if (routePath.startsWith(route) && route.length > longestMatch.length) {
-                requiredRoles = roles;
-                longestMatch = route;
-            }
-        }
-
+        const requiredRoles = this.getRequiredRolesForRoute(routePath);
         if (requiredRoles.length === 0) {
             this.logger.debug(`No role requirement for route: ${routePath}`);
             return true; // No specific requirement
@@ -391,6 +549,42 @@ export class RolesService {
         return hasAccess;
     }
 
+    /**
+     * Check route access based on internal roles (e.g. simulated roles)
+     */
+    public checkRouteAccessForInternalRoles(internalRoles: string[], routePath: string): boolean {
+        const requiredRoles = this.getRequiredRolesForRoute(routePath);
+        const effectiveRoles = this.expandInheritedRoles(internalRoles);
+        const hasAccess = requiredRoles.length === 0 || requiredRoles.some((role) => this.includesInternalRole(effectiveRoles, role));
+        this.logger.debug(`Route access check for ${routePath} with internal roles:`, hasAccess);
+        return hasAccess;
+    }
+
+    /**
+     * Find the route-to-role mapping of a route - the matching pattern with the highest precedence wins
+     * (see route-matcher.utils.ts for the pattern syntax)
+     */
+    public getRouteRoleMapping(routePath: string): RouteRoleMapping | null {
+        const match = findBestRouteMatch(this.routePatterns, routePath);
+        return match ? { pattern: match.pattern, roles: this.rolesConfig.ROUTE_ROLE_MAPPINGS[match.pattern] } : null;
+    }
+
+    /**
+     * Find the required internal roles of a route
+     */
+    private getRequiredRolesForRoute(routePath: string): string[] {
+        return this.getRouteRoleMapping(routePath)?.roles ?? [];
+    }
+
+    /**
+     * Warn about invalid, unreachable or shadowed patterns in the configured route-to-role mappings
+     */
+    private validateRouteRoleMappings(): void {
+        for (const issue of validateRoutePatterns(Object.keys(this.rolesConfig.ROUTE_ROLE_MAPPINGS))) {
+            this.logger.warn(`ROUTE_ROLE_MAPPINGS: ${issue.type} pattern '${issue.pattern}' - ${issue.message}`);
+        }
+    }
+
     /**
      * Set current roles (for mock/simulation mode)
      */
@@ -407,9 +601,17 @@ export class RolesService {
     }
 
     /**
-     * Clear the role mappings cache and reload
+     * Clear the role mappings cache and reload (in all open tabs)
      */
     public clearCache(): void {
+        this.reloadRoleMappings();
+        this.sessionSync.publish('roleMappingsChanged');
+    }
+
+    /**
+     * Clear the role mappings cache and reload in this tab only
+     */
+    private reloadRoleMappings(): void {
         this.logger.debug('Clearing role mappings cache');
         this.internalRolesCache$ = null;
         this.roleMappingCache.clear();
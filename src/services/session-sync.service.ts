@@ -0,0 +1,97 @@
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import { inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { SessionSyncEventType, SessionSyncMessage } from '../interfaces/session-sync.interface';
+
+/**
+ * Session bus to propagate session events (login, logout, token refresh, role mapping changes) to all open tabs.
+ * Uses a BroadcastChannel and falls back to localStorage 'storage' events where BroadcastChannel is unavailable.
+ * Messages published by a tab are never delivered to the same tab.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class SessionSyncService implements OnDestroy {
+    private ngZone = inject(NgZone);
+    private logger: Logger = inject(LogFactoryService).createLogger('SessionSyncService');
+
+    private readonly CHANNEL_NAME = 'ng-core-session';
+    private readonly STORAGE_KEY = 'ng-core-session-sync';
+
+    readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+    private channel: BroadcastChannel | null = null;
+    private readonly messagesSubject = new Subject<SessionSyncMessage>();
+
+    /**
+     * Messages published by other tabs
+     */
+    readonly messages$: Observable<SessionSyncMessage> = this.messagesSubject.asObservable();
+
+    private readonly storageListener = (event: StorageEvent) => {
+        if (event.key !== this.STORAGE_KEY || !event.newValue) {
+            return;
+        }
+        try {
+            this.receive(JSON.parse(event.newValue) as SessionSyncMessage);
+        } catch (error) {
+            this.logger.warn('Ignoring malformed session sync message:', error);
+        }
+    };
+
+    constructor() {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+            this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => this.receive(event.data);
+            this.logger.debug('Session sync using BroadcastChannel');
+        } else {
+            window.addEventListener('storage', this.storageListener);
+            this.logger.debug('BroadcastChannel not available, session sync using storage events');
+        }
+    }
+
+    /**
+     * Publish a session event to all other tabs
+     */
+    publish(type: SessionSyncEventType, payload?: Record<string, unknown>): void {
+        const message: SessionSyncMessage = { type, tabId: this.tabId, timestamp: Date.now(), payload };
+        this.logger.debug(`Publishing session event '${type}'`, payload);
+        try {
+            if (this.channel) {
+                this.channel.postMessage(message);
+            } else {
+                // Setting and removing the key triggers a 'storage' event in all other tabs
+                localStorage.setItem(this.STORAGE_KEY, JSON.stringify(message));
+                localStorage.removeItem(this.STORAGE_KEY);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to publish session event '${type}':`, error);
+        }
+    }
+
+    /**
+     * Messages of a specific type published by other tabs
+     */
+    on(type: SessionSyncEventType): Observable<SessionSyncMessage> {
+        return this.messages$.pipe(filter((message) => message.type === type));
+    }
+
+    ngOnDestroy(): void {
+        this.channel?.close();
+        this.channel = null;
+        window.removeEventListener('storage', this.storageListener);
+        this.messagesSubject.complete();
+    }
+
+    private receive(message: SessionSyncMessage): void {
+        if (!message || message.tabId === this.tabId) {
+            return;
+        }
+        this.logger.debug(`Received session event '${message.type}' from tab ${message.tabId}`);
+        // IMPORTANT: Run inside zone to ensure Angular detects the resulting state changes
+        this.ngZone.run(() => this.messagesSubject.next(message));
+    }
+}
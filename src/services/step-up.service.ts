@@ -0,0 +1,115 @@
+import { defer, from, Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+
+import { inject, Injectable } from '@angular/core';
+
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+import { StepUpRequirement } from '../interfaces/auth.interface';
+import { AuthService } from './auth.service';
+import { BrowserStorageService } from './storage.service';
+
+interface StepUpAttempt {
+    returnUrl: string;
+    timestamp: number;
+}
+
+/**
+ * Service for step-up authentication.
+ * Checks the auth_time and acr claims of the current token against a StepUpRequirement
+ * and triggers a new login with max_age/acr_values if they are insufficient.
+ * Used by the AuthGuard for routes with 'reauth' data and by components before single sensitive actions.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class StepUpService {
+    private authService = inject(AuthService);
+    private storageService = inject(BrowserStorageService);
+    private logger: Logger = inject(LogFactoryService).createLogger('StepUpService');
+
+    private readonly STORAGE_KEY_ATTEMPT = 'step_up_attempt';
+    // A step-up login for the same URL within this interval is not repeated (avoids redirect loops)
+    private readonly ATTEMPT_WINDOW_MS = 60 * 1000;
+
+    /**
+     * Check whether the current authentication satisfies the requirement
+     */
+    isSatisfied(requirement: StepUpRequirement): boolean {
+        const token = this.authService.getParsedToken();
+        if (!token) {
+            return false;
+        }
+
+        if (requirement.maxAgeSeconds !== undefined) {
+            const authTime = token.auth_time ?? this.authService.getParsedIdToken()?.auth_time;
+            if (!authTime || Math.floor(Date.now() / 1000) - authTime > requirement.maxAgeSeconds) {
+                this.logger.debug(`Authentication is older than ${requirement.maxAgeSeconds}s`);
+                return false;
+            }
+        }
+
+        if (requirement.acr && token.acr !== requirement.acr) {
+            this.logger.debug(`Authentication context '${token.acr}' does not match required '${requirement.acr}'`);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Ensure the requirement is satisfied, triggering a step-up login if necessary.
+     * Emits true if the requirement is (or became) satisfied and false if the login redirect was started or failed.
+     *
+     * @param returnUrl URL to return to after the login (defaults to the current page)
+     */
+    stepUp(requirement: StepUpRequirement, returnUrl: string = window.location.href): Observable<boolean> {
+        return defer(() => {
+            if (this.isSatisfied(requirement)) {
+                this.storageService.removeSession(this.STORAGE_KEY_ATTEMPT);
+                return of(true);
+            }
+
+            if (this.isRepeatedAttempt(returnUrl)) {
+                this.logger.warn(`Step-up for ${returnUrl} was already attempted without success, not retrying`);
+                this.storageService.removeSession(this.STORAGE_KEY_ATTEMPT);
+                return of(false);
+            }
+
+            this.logger.debug('Step-up authentication required', requirement);
+            this.storageService.setSession<StepUpAttempt>(this.STORAGE_KEY_ATTEMPT, { returnUrl, timestamp: Date.now() });
+            return from(
+                this.authService.login({
+                    redirectUri: returnUrl,
+                    maxAge: requirement.maxAgeSeconds,
+                    acrValues: requirement.acr
+                })
+            ).pipe(
+                // Redirect-based providers leave the page here; in-place providers can be checked right away
+                map(() => {
+                    const satisfied = this.isSatisfied(requirement);
+                    if (satisfied) {
+                        this.storageService.removeSession(this.STORAGE_KEY_ATTEMPT);
+                    }
+                    return satisfied;
+                }),
+                catchError((error: unknown) => {
+                    this.logger.error('Step-up login failed:', error);
+                    this.storageService.removeSession(this.STORAGE_KEY_ATTEMPT);
+                    return of(false);
+                })
+            );
+        });
+    }
+
+    /**
+     * Check whether a step-up login was started and has not completed yet (e.g. the login redirect is in progress)
+     */
+    isStepUpPending(): boolean {
+        return this.storageService.getSession<StepUpAttempt>(this.STORAGE_KEY_ATTEMPT) !== null;
+    }
+
+    private isRepeatedAttempt(returnUrl: string): boolean {
+        const attempt = this.storageService.getSession<StepUpAttempt>(this.STORAGE_KEY_ATTEMPT);
+        return !!attempt && attempt.returnUrl === returnUrl && Date.now() - attempt.timestamp < this.ATTEMPT_WINDOW_MS;
+    }
+}
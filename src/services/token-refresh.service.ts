@@ -0,0 +1,210 @@
+import { inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+
+import { AUTH_PROVIDER } from '../config/tokens';
+import { LogFactoryService, Logger } from '../factories/logger.factory';
+
+/**
+ * Service that refreshes the access token ahead of its expiry.
+ * Reads the 'exp' claim of the current token and schedules a refresh shortly before it,
+ * coalesces concurrent refresh attempts into one in-flight promise and pauses while the page is hidden.
+ * Failed refreshes are retried with a capped backoff until the provider rejects the refresh token or the user logs out.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TokenRefreshService implements OnDestroy {
+    private authProvider = inject(AUTH_PROVIDER);
+    private ngZone = inject(NgZone);
+    private logger: Logger = inject(LogFactoryService).createLogger('TokenRefreshService');
+
+    // Refresh this many seconds before expiry (at most a third of the token lifetime for short-lived tokens)
+    private readonly REFRESH_LEAD_SECONDS = 60;
+    // Minimum delay before retrying a scheduled refresh that the provider did not perform or that failed
+    private readonly RETRY_DELAY_MS = 5000;
+    // Upper limit of the backoff after failed refreshes
+    private readonly MAX_RETRY_DELAY_MS = 60000;
+
+    private pendingRefresh: Promise<boolean> | null = null;
+    private pendingMinValidity = 0;
+    private refreshTimer?: number;
+    private active = false;
+    private failedAttempts = 0;
+    private refreshRejected = false;
+
+    private readonly visibilityListener = () => this.onVisibilityChange();
+
+    constructor() {
+        this.authProvider.events$.subscribe((event) => {
+            switch (event.type) {
+                case 'ready':
+                case 'authSuccess':
+                case 'authRefreshSuccess':
+                    this.failedAttempts = 0;
+                    this.refreshRejected = false;
+                    this.schedule();
+                    break;
+                case 'authRefreshError':
+                    // Only stop retrying if the refresh token was rejected; network and server errors are retried
+                    if (event.definitive) {
+                        this.refreshRejected = true;
+                        this.clearTimer();
+                    }
+                    break;
+                case 'authLogout':
+                    this.clearTimer();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Start scheduling refreshes (called by the AuthService once the provider is initialized)
+     */
+    start(): void {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+        document.addEventListener('visibilitychange', this.visibilityListener);
+        this.schedule();
+    }
+
+    /**
+     * Stop scheduling refreshes
+     */
+    stop(): void {
+        this.active = false;
+        document.removeEventListener('visibilitychange', this.visibilityListener);
+        this.clearTimer();
+    }
+
+    /**
+     * Refresh the token if it expires within minValidity seconds (-1 forces a refresh).
+     * Concurrent calls share the refresh that is already in flight, unless they ask for more (a forced refresh or a longer
+     * minValidity); those run a follow-up refresh once the pending one has settled.
+     *
+     * @returns Promise<boolean> - True if the token was refreshed
+     */
+    refresh(minValidity: number = -1): Promise<boolean> {
+        if (this.pendingRefresh) {
+            const coveredByPending = this.pendingMinValidity === -1 || (minValidity !== -1 && minValidity <= this.pendingMinValidity);
+            if (coveredByPending) {
+                return this.pendingRefresh;
+            }
+            return this.pendingRefresh.catch(() => false).then(() => this.refresh(minValidity));
+        }
+        this.pendingMinValidity = minValidity;
+        this.pendingRefresh = this.authProvider.updateToken(minValidity).finally(() => {
+            this.pendingRefresh = null;
+        });
+        return this.pendingRefresh;
+    }
+
+    /**
+     * Check whether a refresh is currently in flight
+     */
+    isRefreshPending(): boolean {
+        return this.pendingRefresh !== null;
+    }
+
+    /**
+     * Check whether the current token expires within the given number of seconds
+     */
+    isExpiringWithin(seconds: number): boolean {
+        const secondsUntilExpiry = this.getSecondsUntilExpiry();
+        return secondsUntilExpiry !== null && secondsUntilExpiry <= seconds;
+    }
+
+    /**
+     * Seconds until the current access token expires, or null if there is no token with an 'exp' claim
+     */
+    getSecondsUntilExpiry(): number | null {
+        const exp = this.authProvider.getParsedToken()?.exp;
+        if (!exp) {
+            return null;
+        }
+        return exp - Math.floor(Date.now() / 1000);
+    }
+
+    ngOnDestroy(): void {
+        this.stop();
+    }
+
+    /**
+     * Plan the next refresh
+     *
+     * @param minDelayMs Lower limit of the delay, so a clock running ahead of the server does not cause a refresh loop
+     */
+    private schedule(minDelayMs: number = 0): void {
+        this.clearTimer();
+        if (!this.active || document.visibilityState === 'hidden') {
+            return;
+        }
+        const secondsUntilExpiry = this.getSecondsUntilExpiry();
+        if (secondsUntilExpiry === null) {
+            return;
+        }
+
+        const leadSeconds = this.getLeadSeconds();
+        const delay = Math.max((secondsUntilExpiry - leadSeconds) * 1000, minDelayMs);
+        this.logger.debug(`Next token refresh in ${Math.round(delay / 1000)}s`);
+
+        // Run the timer outside of Angular, but perform the refresh inside the zone
+        this.ngZone.runOutsideAngular(() => {
+            this.refreshTimer = window.setTimeout(() => {
+                this.refreshTimer = undefined;
+                this.ngZone.run(() => this.refreshAndReschedule(leadSeconds));
+            }, delay);
+        });
+    }
+
+    private refreshAndReschedule(minValidity: number): void {
+        this.refresh(minValidity)
+            .then((refreshed) => {
+                if (!refreshed) {
+                    // Nothing to do yet (e.g. token was refreshed by another caller, or the provider corrects a clock skew
+                    // and still considers the token valid), plan the next attempt with a minimum delay
+                    this.schedule(this.RETRY_DELAY_MS);
+                }
+            })
+            .catch((error: unknown) => {
+                this.logger.error('Scheduled token refresh failed:', error);
+                if (this.refreshRejected) {
+                    // Do not reschedule; the provider's 'tokenExpired' handling takes over
+                    return;
+                }
+                this.failedAttempts++;
+                this.schedule(Math.min(this.RETRY_DELAY_MS * 2 ** (this.failedAttempts - 1), this.MAX_RETRY_DELAY_MS));
+            });
+    }
+
+    private onVisibilityChange(): void {
+        if (document.visibilityState === 'hidden') {
+            this.logger.debug('Page hidden, pausing token refresh');
+            this.clearTimer();
+            return;
+        }
+        // Catch up on refreshes that were skipped while the page was hidden
+        if (this.isExpiringWithin(this.getLeadSeconds())) {
+            this.logger.debug('Page visible again, token is about to expire - refreshing now');
+            this.refreshAndReschedule(this.getLeadSeconds());
+        } else {
+            this.schedule();
+        }
+    }
+
+    private getLeadSeconds(): number {
+        const token = this.authProvider.getParsedToken();
+        if (token?.exp && token.iat) {
+            return Math.min(this.REFRESH_LEAD_SECONDS, Math.floor((token.exp - token.iat) / 3));
+        }
+        return this.REFRESH_LEAD_SECONDS;
+    }
+
+    private clearTimer(): void {
+        if (this.refreshTimer) {
+            window.clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+}
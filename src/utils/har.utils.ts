@@ -0,0 +1,166 @@
+import { ApiLogEntry } from '../interfaces/api.interface';
+import { Har, HarContent, HarCreator, HarEntry, HarNameValue } from '../interfaces/har.interface';
+import { splitRoutePath } from './route-matcher.utils';
+
+/**
+ * Conversion between the API log and HTTP Archive (HAR) 1.2 files, and the request matching of the HAR replay.
+ * Bodies are written as JSON text (strings as is); URLs are resolved against the current origin.
+ * Credentials are not exported: the values of the REDACTED_HAR_HEADERS are replaced, so HAR files can be shared.
+ */
+
+/**
+ * Headers whose values are replaced by REDACTED_HAR_VALUE on export (lower case)
+ */
+const REDACTED_HAR_HEADERS = ['authorization', 'cookie', 'set-cookie'];
+
+const REDACTED_HAR_VALUE = '[redacted]';
+
+/**
+ * Create a HAR file from API log entries; pending entries are skipped, the entries are written in chronological order
+ */
+export function createHar(entries: ApiLogEntry[], creator: HarCreator): Har {
+    return {
+        log: {
+            version: '1.2',
+            creator,
+            entries: entries
+                .filter((entry) => entry.status !== 'pending')
+                .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+                .map(toHarEntry)
+        }
+    };
+}
+
+/**
+ * Parse and check a HAR file
+ *
+ * @throws Error if the content is no HAR file
+ */
+export function parseHar(content: string | Har): Har {
+    const har = typeof content === 'string' ? (JSON.parse(content) as Har) : content;
+    if (!har?.log || !Array.isArray(har.log.entries)) {
+        throw new Error('Invalid HAR file: log.entries is missing');
+    }
+    const invalid = har.log.entries.findIndex((entry) => !entry?.request?.method || !entry.request.url || typeof entry.response?.status !== 'number');
+    if (invalid >= 0) {
+        throw new Error(`Invalid HAR file: entry ${invalid} has no request method, URL or response status`);
+    }
+    return har;
+}
+
+/**
+ * Read the body of a HAR response; JSON content is parsed, base64 content is decoded to text
+ */
+export function readHarContent(content: HarContent | undefined): unknown {
+    if (content?.text === undefined) {
+        return null;
+    }
+    const text = content.encoding === 'base64' ? atob(content.text) : content.text;
+    if (content.mimeType?.includes('json')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+}
+
+/**
+ * Key of a request for the HAR replay: method, path and sorted query parameters. The origin is ignored,
+ * so a session recorded against a deployed backend replays on localhost.
+ */
+export function getHarRequestKey(method: string, url: string): string {
+    const parsed = new URL(url, window.location.origin);
+    const query: string[] = [];
+    parsed.searchParams.forEach((value, name) => query.push(`${name}=${value}`));
+    return `${method.toUpperCase()} /${splitRoutePath(parsed.pathname).join('/')}${query.length > 0 ? '?' + query.sort().join('&') : ''}`;
+}
+
+/**
+ * Canonical JSON of a request body (object keys sorted), for comparing recorded and current bodies
+ */
+export function canonicalizeBody(body: unknown): string {
+    if (body === null || body === undefined || body === '') {
+        return '';
+    }
+    let value = body;
+    if (typeof body === 'string') {
+        try {
+            value = JSON.parse(body);
+        } catch {
+            return body;
+        }
+    }
+    return JSON.stringify(value, (_key, nested: unknown) => sortObjectKeys(nested));
+}
+
+function sortObjectKeys(value: unknown): unknown {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return value;
+    }
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function toHarEntry(entry: ApiLogEntry): HarEntry {
+    const url = new URL(entry.url, window.location.origin);
+    const queryString: HarNameValue[] = [];
+    url.searchParams.forEach((value, name) => queryString.push({ name, value }));
+    const requestBody = toBodyText(entry.requestBody);
+    const responseBody = toBodyText(entry.responseBody);
+    const responseHeaders = toHarHeaders(entry.responseHeaders);
+    const duration = entry.duration ?? 0;
+
+    return {
+        startedDateTime: entry.timestamp.toISOString(),
+        time: duration,
+        request: {
+            method: entry.method,
+            url: url.href,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString,
+            ...(requestBody !== undefined && { postData: { mimeType: getMimeType(entry.requestBody), text: requestBody } }),
+            headersSize: -1,
+            bodySize: requestBody?.length ?? 0
+        },
+        response: {
+            status: entry.statusCode ?? 0,
+            statusText: entry.statusText ?? '',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: responseHeaders,
+            content: {
+                size: responseBody?.length ?? 0,
+                mimeType: responseHeaders.find((header) => header.name.toLowerCase() === 'content-type')?.value ?? getMimeType(entry.responseBody),
+                ...(responseBody !== undefined && { text: responseBody })
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: responseBody?.length ?? 0
+        },
+        cache: {},
+        timings: { send: 0, wait: duration, receive: 0 }
+    };
+}
+
+function toHarHeaders(headers: unknown): HarNameValue[] {
+    if (!headers || typeof headers !== 'object') {
+        return [];
+    }
+    return Object.entries(headers as Record<string, unknown>)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([name, value]) => ({ name, value: REDACTED_HAR_HEADERS.includes(name.toLowerCase()) ? REDACTED_HAR_VALUE : String(value) }));
+}
+
+function toBodyText(body: unknown): string | undefined {
+    if (body === null || body === undefined) {
+        return undefined;
+    }
+    return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function getMimeType(body: unknown): string {
+    return typeof body === 'string' ? 'text/plain' : 'application/json';
+}
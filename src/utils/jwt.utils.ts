@@ -0,0 +1,49 @@
+import { AuthTokenClaims } from '../interfaces/auth.interface';
+
+/**
+ * Encode a string or byte array as base64url (RFC 4648 §5) without padding.
+ */
+export function base64UrlEncode(input: string | Uint8Array): string {
+    const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    let binary = '';
+    bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url string (with or without padding) to a UTF-8 string.
+ */
+export function base64UrlDecode(input: string): string {
+    const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ * Returns undefined if the token is not a well-formed JWT.
+ */
+export function decodeJwtPayload(token: string | undefined | null): AuthTokenClaims | undefined {
+    if (!token) {
+        return undefined;
+    }
+    const parts = token.split('.');
+    if (parts.length < 2) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(base64UrlDecode(parts[1])) as AuthTokenClaims;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Build an unsigned JWT ("alg": "none") from a set of claims.
+ * Only intended for fake/mock tokens that are never validated by a backend.
+ */
+export function createUnsignedJwt(claims: AuthTokenClaims): string {
+    return `${base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}.`;
+}
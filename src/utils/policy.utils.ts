@@ -0,0 +1,357 @@
+import { MenuItemRole, PermissionOperation } from '../interfaces/roles.interface';
+import { Stage } from '../interfaces/stage.interface';
+
+/**
+ * Access policy expressions for menu items and route data.
+ *
+ * Syntax:
+ * - 'editor', 'role:editor', "'my-client:editor'"   the user has the internal role (quote names containing special characters)
+ * - 'perm:U:offerte', 'perm:CRU:offerte'           the user has the operation(s) in the area (see PermissionService)
+ * - 'stage:PROD'                                   the application runs on the stage
+ * - 'feature:newSearch'                            the feature flag is enabled (environment 'features')
+ * - 'true', 'false'                                constants
+ * - 'NOT a' / '!a', 'a AND b' / 'a && b', 'a OR b' / 'a || b', parentheses
+ * NOT binds stronger than AND, AND stronger than OR; keywords are case-insensitive.
+ * A superuser context satisfies every role predicate that is not negated, and none that is (so 'NOT readonly' stays true).
+ *
+ * @example
+ * '(editor AND region_ch) OR admin'
+ * 'perm:U:offerte AND NOT stage:PROD'
+ */
+
+export type PolicyExpression =
+    | { type: 'and'; operands: PolicyExpression[] }
+    | { type: 'or'; operands: PolicyExpression[] }
+    | { type: 'not'; operand: PolicyExpression }
+    | { type: 'constant'; value: boolean }
+    | { type: 'role'; role: string }
+    | { type: 'permission'; op: PermissionOperation; area: string }
+    | { type: 'stage'; stage: Stage }
+    | { type: 'feature'; feature: string };
+
+/**
+ * Access policy: an expression or the list-based role requirement of menu items
+ */
+export type AccessPolicy = string | MenuItemRole;
+
+/**
+ * Facts a policy is evaluated against
+ */
+export interface PolicyContext {
+    hasRole(role: string): boolean;
+    superuser?: boolean; // The user has a role inheriting '*' (see SUPERUSER_ROLE)
+    can(op: PermissionOperation, area: string): boolean;
+    stage: Stage;
+    isFeatureEnabled(feature: string): boolean;
+}
+
+type Token = { type: 'open' | 'close' | 'and' | 'or' | 'not'; position: number } | { type: 'word'; value: string; quoted: boolean; position: number };
+
+const PERMISSION_OPERATIONS: readonly string[] = ['C', 'R', 'U', 'D'] satisfies PermissionOperation[];
+const STAGES: readonly string[] = Object.values(Stage);
+
+const compiledPolicies = new Map<string, PolicyExpression | Error>();
+const compiledRequirements = new WeakMap<MenuItemRole, PolicyExpression>();
+
+/**
+ * Parse a policy expression (results are cached per source)
+ *
+ * @throws Error with the position if the expression is invalid (unknown operation or stage, syntax error)
+ */
+export function compilePolicy(source: string): PolicyExpression {
+    let compiled = compiledPolicies.get(source);
+    if (!compiled) {
+        try {
+            compiled = new PolicyParser(source).parse();
+        } catch (error) {
+            compiled = error instanceof Error ? error : new Error(String(error));
+        }
+        compiledPolicies.set(source, compiled);
+    }
+    if (compiled instanceof Error) {
+        throw compiled;
+    }
+    return compiled;
+}
+
+/**
+ * Compile a list-based role requirement into the equivalent expression:
+ * NOT (any excluded role) AND (all of requiredAllRoles) AND (any of requiredRoles); empty lists are ignored
+ */
+export function compileRoleRequirement(requirement: MenuItemRole): PolicyExpression {
+    let compiled = compiledRequirements.get(requirement);
+    if (!compiled) {
+        const toRoles = (roles: string[]): PolicyExpression[] => roles.map((role) => ({ type: 'role', role }));
+        const operands: PolicyExpression[] = [];
+        if (requirement.excludeRoles?.length) {
+            operands.push({ type: 'not', operand: { type: 'or', operands: toRoles(requirement.excludeRoles) } });
+        }
+        if (requirement.requiredAllRoles?.length) {
+            operands.push({ type: 'and', operands: toRoles(requirement.requiredAllRoles) });
+        }
+        if (requirement.requiredRoles?.length) {
+            operands.push({ type: 'or', operands: toRoles(requirement.requiredRoles) });
+        }
+        compiled = { type: 'and', operands };
+        compiledRequirements.set(requirement, compiled);
+    }
+    return compiled;
+}
+
+/**
+ * Compile an access policy of either form
+ */
+export function compileAccessPolicy(policy: AccessPolicy): PolicyExpression {
+    return typeof policy === 'string' ? compilePolicy(policy) : compileRoleRequirement(policy);
+}
+
+/**
+ * Evaluate a compiled policy; an empty AND is true, an empty OR is false
+ */
+export function evaluatePolicy(expression: PolicyExpression, context: PolicyContext): boolean {
+    return evaluateExpression(expression, context, false);
+}
+
+/**
+ * @param negated Whether the expression is below an odd number of NOTs (superusers only satisfy non-negated role predicates)
+ */
+function evaluateExpression(expression: PolicyExpression, context: PolicyContext, negated: boolean): boolean {
+    switch (expression.type) {
+        case 'and':
+            return expression.operands.every((operand) => evaluateExpression(operand, context, negated));
+        case 'or':
+            return expression.operands.some((operand) => evaluateExpression(operand, context, negated));
+        case 'not':
+            return !evaluateExpression(expression.operand, context, !negated);
+        case 'constant':
+            return expression.value;
+        case 'role':
+            return context.hasRole(expression.role) || (!!context.superuser && !negated);
+        case 'permission':
+            return context.can(expression.op, expression.area);
+        case 'stage':
+            return context.stage === expression.stage;
+        case 'feature':
+            return context.isFeatureEnabled(expression.feature);
+    }
+}
+
+/**
+ * Collect the roles referenced by a compiled policy
+ */
+export function collectPolicyRoles(expression: PolicyExpression): string[] {
+    switch (expression.type) {
+        case 'and':
+        case 'or':
+            return [...new Set(expression.operands.flatMap(collectPolicyRoles))];
+        case 'not':
+            return collectPolicyRoles(expression.operand);
+        case 'role':
+            return [expression.role];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Format a compiled policy in the expression syntax (e.g. for logging)
+ */
+export function formatPolicy(expression: PolicyExpression): string {
+    switch (expression.type) {
+        case 'and':
+        case 'or': {
+            if (expression.operands.length === 0) {
+                return String(expression.type === 'and');
+            }
+            return expression.operands.map(formatOperand).join(expression.type === 'and' ? ' AND ' : ' OR ');
+        }
+        case 'not':
+            return `NOT ${formatOperand(expression.operand)}`;
+        case 'constant':
+            return String(expression.value);
+        case 'role':
+            return /^[\w.$-]+$/.test(expression.role) && !isKeyword(expression.role) ? expression.role : `'${expression.role}'`;
+        case 'permission':
+            return `perm:${expression.op}:${expression.area}`;
+        case 'stage':
+            return `stage:${expression.stage}`;
+        case 'feature':
+            return `feature:${expression.feature}`;
+    }
+}
+
+function formatOperand(expression: PolicyExpression): string {
+    const compound = (expression.type === 'and' || expression.type === 'or') && expression.operands.length > 1;
+    return compound ? `(${formatPolicy(expression)})` : formatPolicy(expression);
+}
+
+function isKeyword(word: string): boolean {
+    return ['and', 'or', 'not', 'true', 'false'].includes(word.toLowerCase());
+}
+
+/**
+ * Recursive descent parser: or := and (OR and)*, and := not (AND not)*, not := NOT not | primary, primary := '(' or ')' | predicate
+ */
+class PolicyParser {
+    private readonly tokens: Token[];
+    private index = 0;
+
+    constructor(private readonly source: string) {
+        this.tokens = this.tokenize();
+    }
+
+    parse(): PolicyExpression {
+        if (this.tokens.length === 0) {
+            throw this.error('Empty policy expression', 0);
+        }
+        const expression = this.parseOr();
+        const next = this.tokens[this.index];
+        if (next) {
+            throw this.error('Unexpected token', next.position);
+        }
+        return expression;
+    }
+
+    private parseOr(): PolicyExpression {
+        const operands = [this.parseAnd()];
+        while (this.tokens[this.index]?.type === 'or') {
+            this.index++;
+            operands.push(this.parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : { type: 'or', operands };
+    }
+
+    private parseAnd(): PolicyExpression {
+        const operands = [this.parseNot()];
+        while (this.tokens[this.index]?.type === 'and') {
+            this.index++;
+            operands.push(this.parseNot());
+        }
+        return operands.length === 1 ? operands[0] : { type: 'and', operands };
+    }
+
+    private parseNot(): PolicyExpression {
+        if (this.tokens[this.index]?.type === 'not') {
+            this.index++;
+            return { type: 'not', operand: this.parseNot() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): PolicyExpression {
+        const token = this.tokens[this.index++];
+        if (!token) {
+            throw this.error('Unexpected end of expression', this.source.length);
+        }
+        if (token.type === 'open') {
+            const expression = this.parseOr();
+            if (this.tokens[this.index]?.type !== 'close') {
+                throw this.error("Missing ')'", this.tokens[this.index]?.position ?? this.source.length);
+            }
+            this.index++;
+            return expression;
+        }
+        if (token.type !== 'word') {
+            throw this.error('Expected a predicate', token.position);
+        }
+        return this.parsePredicate(token.value, token.quoted, token.position);
+    }
+
+    private parsePredicate(word: string, quoted: boolean, position: number): PolicyExpression {
+        if (quoted) {
+            return { type: 'role', role: word };
+        }
+        const lower = word.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+            return { type: 'constant', value: lower === 'true' };
+        }
+
+        const separator = word.indexOf(':');
+        const prefix = separator > 0 ? word.slice(0, separator).toLowerCase() : '';
+        const argument = word.slice(separator + 1);
+        switch (prefix) {
+            case 'role':
+                return this.requireArgument({ type: 'role', role: argument }, argument, position);
+            case 'perm': {
+                const areaSeparator = argument.indexOf(':');
+                const operations = argument.slice(0, areaSeparator);
+                const area = argument.slice(areaSeparator + 1);
+                if (areaSeparator <= 0 || !area) {
+                    throw this.error("Expected 'perm:<operations>:<area>'", position);
+                }
+                const ops = operations.toUpperCase().split('');
+                const invalid = ops.find((op) => !PERMISSION_OPERATIONS.includes(op));
+                if (invalid) {
+                    throw this.error(`Unknown operation '${invalid}', expected C, R, U or D`, position);
+                }
+                const permissions = ops.map((op): PolicyExpression => ({ type: 'permission', op: op as PermissionOperation, area }));
+                return permissions.length === 1 ? permissions[0] : { type: 'and', operands: permissions };
+            }
+            case 'stage': {
+                const stage = argument.toUpperCase();
+                if (!STAGES.includes(stage)) {
+                    throw this.error(`Unknown stage '${argument}', expected one of ${STAGES.join(', ')}`, position);
+                }
+                return { type: 'stage', stage: stage as Stage };
+            }
+            case 'feature':
+                return this.requireArgument({ type: 'feature', feature: argument }, argument, position);
+            default:
+                // Bare names (including client roles like 'client:role') are roles
+                return { type: 'role', role: word };
+        }
+    }
+
+    private requireArgument(expression: PolicyExpression, argument: string, position: number): PolicyExpression {
+        if (!argument) {
+            throw this.error('Missing name after the prefix', position);
+        }
+        return expression;
+    }
+
+    private tokenize(): Token[] {
+        const tokens: Token[] = [];
+        const pattern = /(\()|(\))|(&&)|(\|\|)|(!)|'([^']*)'|"([^"]*)"|([^\s()!&|'"]+)/y;
+        let position = 0;
+
+        while (position < this.source.length) {
+            if (/\s/.test(this.source[position])) {
+                position++;
+                continue;
+            }
+            pattern.lastIndex = position;
+            const match = pattern.exec(this.source);
+            if (!match) {
+                throw this.error('Unexpected character', position);
+            }
+            const start = position;
+            const [, open, close, and, or, not, singleQuoted, doubleQuoted, word] = match;
+            if (open) {
+                tokens.push({ type: 'open', position: start });
+            } else if (close) {
+                tokens.push({ type: 'close', position: start });
+            } else if (and) {
+                tokens.push({ type: 'and', position: start });
+            } else if (or) {
+                tokens.push({ type: 'or', position: start });
+            } else if (not) {
+                tokens.push({ type: 'not', position: start });
+            } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+                tokens.push({ type: 'word', value: singleQuoted ?? doubleQuoted, quoted: true, position: start });
+            } else {
+                const keyword = word.toLowerCase();
+                if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+                    tokens.push({ type: keyword, position: start });
+                } else {
+                    tokens.push({ type: 'word', value: word, quoted: false, position: start });
+                }
+            }
+            position = pattern.lastIndex;
+        }
+        return tokens;
+    }
+
+    private error(message: string, position: number): Error {
+        return new Error(`${message} at position ${position} in policy '${this.source}'`);
+    }
+}
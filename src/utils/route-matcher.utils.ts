@@ -0,0 +1,211 @@
+/**
+ * Route patterns for route-to-role mappings.
+ *
+ * Syntax (matched segment by segment against the path without query string, fragment and matrix parameters):
+ * - 'admin'  literal segment; '/admin' matches '/admin' and '/admin/users' but not '/administration'
+ * - ':id'    placeholder for exactly one segment, the value is returned as parameter
+ * - '*'      wildcard for exactly one segment
+ * - '**'     wildcard for any number of segments (including none), e.g. between '/cases' and '/edit'
+ * Patterns are prefix matches, so sub-routes inherit the mapping of their parent unless a more specific pattern exists.
+ *
+ * Precedence if several patterns match: more literal segments, then more single-segment placeholders/wildcards,
+ * then fewer '**' wildcards; remaining ties are decided by declaration order (first wins).
+ */
+
+type PatternSegment = { type: 'literal'; value: string } | { type: 'param'; name: string } | { type: 'wildcard' } | { type: 'globstar' };
+
+export interface CompiledRoutePattern {
+    pattern: string;
+    segments: PatternSegment[];
+    literalCount: number;
+    placeholderCount: number;
+    globstarCount: number;
+    order: number;
+}
+
+export interface RouteMatch {
+    pattern: string;
+    params: Record<string, string>;
+}
+
+export interface RoutePatternIssue {
+    pattern: string;
+    type: 'invalid' | 'unreachable' | 'shadowed';
+    message: string;
+    shadowedBy?: string;
+}
+
+/**
+ * Split a URL or route path into its path segments (query string, fragment, matrix parameters and empty segments removed)
+ */
+export function splitRoutePath(path: string): string[] {
+    const pathOnly = path.split(/[?#]/)[0];
+    return pathOnly
+        .split('/')
+        .map((segment) => segment.split(';')[0])
+        .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Parse a route pattern
+ */
+export function compileRoutePattern(pattern: string, order: number = 0): CompiledRoutePattern {
+    const segments: PatternSegment[] = pattern
+        .split('/')
+        .filter((segment) => segment.length > 0)
+        .map((segment): PatternSegment => {
+            if (segment === '**') {
+                return { type: 'globstar' };
+            }
+            if (segment === '*') {
+                return { type: 'wildcard' };
+            }
+            if (segment.startsWith(':')) {
+                return { type: 'param', name: segment.slice(1) };
+            }
+            return { type: 'literal', value: segment };
+        });
+
+    return {
+        pattern,
+        segments,
+        literalCount: segments.filter((segment) => segment.type === 'literal').length,
+        placeholderCount: segments.filter((segment) => segment.type === 'param' || segment.type === 'wildcard').length,
+        globstarCount: segments.filter((segment) => segment.type === 'globstar').length,
+        order
+    };
+}
+
+/**
+ * Parse a list of route patterns, keeping their declaration order for the precedence
+ */
+export function compileRoutePatterns(patterns: string[]): CompiledRoutePattern[] {
+    return patterns.map((pattern, index) => compileRoutePattern(pattern, index));
+}
+
+/**
+ * Match a path against a route pattern
+ *
+ * @param exact Require the pattern to match the whole path instead of a prefix
+ * @returns The placeholder values, or null if the pattern does not match
+ */
+export function matchRoutePattern(pattern: CompiledRoutePattern | string, path: string, exact: boolean = false): Record<string, string> | null {
+    const compiled = typeof pattern === 'string' ? compileRoutePattern(pattern) : pattern;
+    return matchSegments(compiled.segments, splitRoutePath(path), 0, 0, {}, exact);
+}
+
+/**
+ * Find the pattern with the highest precedence that matches the path
+ *
+ * @param exact Require the pattern to match the whole path instead of a prefix
+ */
+export function findBestRouteMatch(patterns: CompiledRoutePattern[], path: string, exact: boolean = false): RouteMatch | null {
+    const pathSegments = splitRoutePath(path);
+    let best: { pattern: CompiledRoutePattern; params: Record<string, string> } | null = null;
+
+    for (const pattern of patterns) {
+        const params = matchSegments(pattern.segments, pathSegments, 0, 0, {}, exact);
+        if (params && (!best || compareRoutePrecedence(pattern, best.pattern) < 0)) {
+            best = { pattern, params };
+        }
+    }
+    return best ? { pattern: best.pattern.pattern, params: best.params } : null;
+}
+
+/**
+ * Compare the precedence of two patterns (negative if a takes precedence over b)
+ */
+export function compareRoutePrecedence(a: CompiledRoutePattern, b: CompiledRoutePattern): number {
+    return b.literalCount - a.literalCount || b.placeholderCount - a.placeholderCount || a.globstarCount - b.globstarCount || a.order - b.order;
+}
+
+/**
+ * Check route patterns for mistakes: invalid syntax, patterns that can never match and patterns shadowed by an equivalent earlier pattern
+ */
+export function validateRoutePatterns(patterns: string[]): RoutePatternIssue[] {
+    const issues: RoutePatternIssue[] = [];
+    const canonicalPatterns = new Map<string, CompiledRoutePattern>();
+
+    patterns.forEach((pattern, order) => {
+        if (/[?#]/.test(pattern)) {
+            issues.push({ pattern, type: 'unreachable', message: 'Query strings and fragments are ignored when matching, the pattern can never match' });
+            return;
+        }
+
+        const compiled = compileRoutePattern(pattern, order);
+        const invalidSegment = compiled.segments.find((segment) => (segment.type === 'literal' && segment.value.includes('*')) || (segment.type === 'param' && !/^[A-Za-z_$][\w$]*$/.test(segment.name)));
+        if (invalidSegment) {
+            issues.push({ pattern, type: 'invalid', message: "Invalid segment; use literals, ':name', '*' or '**'" });
+            return;
+        }
+
+        const paramNames = compiled.segments.flatMap((segment) => (segment.type === 'param' ? [segment.name] : []));
+        const duplicateParam = paramNames.find((name, index) => paramNames.indexOf(name) !== index);
+        if (duplicateParam) {
+            issues.push({ pattern, type: 'invalid', message: `Duplicate placeholder ':${duplicateParam}'` });
+            return;
+        }
+
+        // Patterns with the same canonical form match the same paths, so only the one with the higher precedence is ever used
+        const canonical = toCanonicalPattern(compiled);
+        const equivalent = canonicalPatterns.get(canonical);
+        if (!equivalent) {
+            canonicalPatterns.set(canonical, compiled);
+            return;
+        }
+        const [winner, loser] = compareRoutePrecedence(equivalent, compiled) <= 0 ? [equivalent, compiled] : [compiled, equivalent];
+        issues.push({ pattern: loser.pattern, type: 'shadowed', message: `Equivalent to '${winner.pattern}', which always takes precedence`, shadowedBy: winner.pattern });
+        canonicalPatterns.set(canonical, winner);
+    });
+    return issues;
+}
+
+/**
+ * Canonical form of a pattern: placeholders unified, repeated '**' collapsed and trailing '**' removed (patterns are prefix matches)
+ */
+function toCanonicalPattern(compiled: CompiledRoutePattern): string {
+    const parts = compiled.segments.map((segment) => (segment.type === 'literal' ? segment.value : segment.type === 'globstar' ? '**' : '*'));
+    const collapsed = parts.filter((part, index) => !(part === '**' && parts[index - 1] === '**'));
+    while (collapsed[collapsed.length - 1] === '**') {
+        collapsed.pop();
+    }
+    return '/' + collapsed.join('/');
+}
+
+function matchSegments(segments: PatternSegment[], path: string[], segmentIndex: number, pathIndex: number, params: Record<string, string>, exact: boolean): Record<string, string> | null {
+    if (segmentIndex === segments.length) {
+        // Prefix match: remaining path segments belong to sub-routes
+        return !exact || pathIndex === path.length ? params : null;
+    }
+
+    const segment = segments[segmentIndex];
+    if (segment.type === 'globstar') {
+        for (let next = pathIndex; next <= path.length; next++) {
+            const result = matchSegments(segments, path, segmentIndex + 1, next, { ...params }, exact);
+            if (result) {
+                return result;
+            }
+        }
+        return null;
+    }
+
+    if (pathIndex >= path.length) {
+        return null;
+    }
+    switch (segment.type) {
+        case 'literal':
+            return segment.value === path[pathIndex] ? matchSegments(segments, path, segmentIndex + 1, pathIndex + 1, params, exact) : null;
+        case 'param':
+            return matchSegments(segments, path, segmentIndex + 1, pathIndex + 1, { ...params, [segment.name]: safeDecode(path[pathIndex]) }, exact);
+        case 'wildcard':
+            return matchSegments(segments, path, segmentIndex + 1, pathIndex + 1, params, exact);
+    }
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}